@@ -1,36 +1,105 @@
 import info from "./deno.json" with { type: "json" };
-import { JsonLogger, readListensFile } from "./utils.ts";
+import {
+  Checkpoint,
+  chunk,
+  getListenKey,
+  getTimeRange,
+  JsonLogger,
+  LineWriter,
+  readListensFile,
+  readTimeRange,
+} from "./utils.ts";
+import { getHistoryPages, indexHistory } from "./history.ts";
+import { createRateLimitedFetch } from "./rate_limit.ts";
+import {
+  getSystemWallClockTime,
+  isValidTimeZone,
+  parseTimestamp,
+  zonedTimeToUtc,
+} from "./timezone.ts";
+import {
+  duplicateIdentities,
+  groupDuplicates,
+  groupSortedDuplicates,
+  type ListenIndex,
+} from "./duplicates.ts";
+import { isStdio, openInputFile, readText, stdioPath } from "./input.ts";
+import { parseLastFmCsv, parseLastFmJson } from "./lastfm.ts";
+import { parseYouTubeMusicHistory } from "./youtube.ts";
+import {
+  applyRecordingMatch,
+  hasMatchingNames,
+  RecordingMapper,
+} from "./mapping.ts";
+import { isChronological, mergeListens } from "./merge.ts";
+import { diffListens } from "./diff.ts";
+import { MusicBrainzListenSource } from "./musicbrainz.ts";
+import {
+  createSessionListens,
+  loadListeningSession,
+} from "./listen_session.ts";
 import { getListenFilter } from "./listen_filter.ts";
+import {
+  type ListenIssue,
+  ListenValidator,
+  validateListensFile,
+} from "./listen_validator.ts";
 import { getListenModifier } from "./listen_modifier.ts";
-import { Command, ValidationError } from "@cliffy/command";
+import { applyListenRules, loadListenRules } from "./listen_rules.ts";
+import {
+  createExporter,
+  defaultExportColumns,
+  detectExportFormat,
+  exportFormats,
+} from "./export.ts";
+import {
+  ListenPrinter,
+  type OutputFormat,
+  outputFormats,
+  TableWriter,
+} from "./output.ts";
+import {
+  formatDate,
+  formatDuration,
+  getTimePeriod,
+  ListenStatistics,
+  sortValues,
+  timeUnits,
+  type ValueStatistics,
+} from "./statistics.ts";
+import { Command, EnumType, ValidationError } from "@cliffy/command";
 import { CompletionsCommand } from "@cliffy/command/completions";
 import { UpgradeCommand } from "@cliffy/command/upgrade";
 import { JsrProvider } from "@cliffy/command/upgrade/provider/jsr";
 import { ListenBrainzClient } from "@kellnerd/listenbrainz";
 import {
-  type AdditionalTrackInfo,
   cleanListen,
   formatListen,
+  type InsertedListen,
   type Listen,
   setSubmissionClient,
   type Track,
 } from "@kellnerd/listenbrainz/listen";
 import { timestamp } from "@kellnerd/listenbrainz/timestamp";
-import { parseMusicBrainzRelease } from "@kellnerd/listenbrainz/parser/musicbrainz";
 import { parseScrobblerLog } from "@kellnerd/listenbrainz/parser/scrobbler-log";
 import { parseSpotifyExtendedHistory } from "@kellnerd/listenbrainz/parser/spotify";
-import { MusicBrainzClient } from "@kellnerd/musicbrainz";
-import { parseTrackRange } from "@kellnerd/musicbrainz/utils/track";
+import { join } from "@std/path/join";
 import { brightBlue as opt, brightMagenta as cmd } from "@std/fmt/colors";
-import { extname } from "@std/path/extname";
-
-/** MusicBrainz URLs which are accepted by the CLI. */
-const musicBrainzUrlPattern = new URLPattern({
-  pathname: "/release/:mbid([0-9a-f-]{36})",
-});
 
 const contactUrl = "https://github.com/kellnerd/elbisaur";
 
+/** Fetch function which respects the rate limit of the ListenBrainz API. */
+const rateLimitedFetch = createRateLimitedFetch(fetch);
+
+/** Maximum number of listens which ListenBrainz accepts per request. */
+const maxBatchSize = 1000;
+
+/** Prefix of a reference to the listening history of a user. */
+const historyPrefix = "user:";
+
+/** Time periods into which listens can be split. */
+const splitPeriods = ["year", "month"] as const;
+
 /** Cliffy command line interface of `elbisaur`. */
 export const cli = new Command()
   .name("elbisaur")
@@ -65,6 +134,25 @@ export const cli = new Command()
     "-i, --include-list <path:file>",
     "YAML file which maps track metadata keys to lists of allowed values.",
   )
+  .globalOption(
+    "-z, --timezone <name>",
+    "Time zone (IANA name) of dates and times without UTC offset.",
+  )
+  .globalOption(
+    "--display-timezone",
+    "Show dates and time periods in the time zone (instead of UTC).",
+    { depends: ["timezone"] },
+  )
+  .globalType("format", new EnumType(outputFormats))
+  .globalOption(
+    "--format <format:format>",
+    "Output format of listens and statistics.",
+    { default: "text" as const },
+  )
+  .globalOption(
+    "--columns <keys:string[]>",
+    "Listen properties which are shown by tabular output formats.",
+  )
   .action(function () {
     this.showHelp();
   })
@@ -77,99 +165,459 @@ export const cli = new Command()
     "-o, --output <path:file>",
     "Write listens into to the given JSONL file (append to existing file).",
   )
+  .option(
+    "--all",
+    "Download the full history page by page, count is the page size (default 1000).",
+  )
   .action(async function (options) {
     const listenFilter = await getListenFilter(options.filter, options);
-    const client = new ListenBrainzClient({ userToken: options.token });
-    if (!options.user) {
-      const username = await client.validateToken();
-      if (!username) {
-        throw new ValidationError("Specified token is invalid");
-      } else {
-        options.user = username;
-      }
-    }
+    const client = createClient(options.token);
+    const user = await getUsername(client, options.user);
+    const printer = createListenPrinter(options);
     const output = new JsonLogger();
+    const minTs = options.after
+      ? parseTimestamp(options.after, options.timezone)
+      : undefined;
+    let maxTs = options.before
+      ? parseTimestamp(options.before, options.timezone)
+      : undefined;
+    // Keys of already downloaded listens which will be downloaded again.
+    const downloadedKeys = new Set<string>();
     if (options.output) {
+      if (options.all && !isStdio(options.output)) {
+        // Resume an interrupted download at the oldest downloaded listen, other
+        // listens with the same timestamp might not have been downloaded yet.
+        const range = await readTimeRange(options.output);
+        if (range && (maxTs === undefined || range.oldest < maxTs)) {
+          console.info("Resuming at", new Date(range.oldest * 1000));
+          maxTs = range.oldest + 1;
+          for await (const listen of readListensFile(options.output)) {
+            if (listen.listened_at === range.oldest) {
+              downloadedKeys.add(getListenKey(listen));
+            }
+          }
+        }
+      }
       await output.open(options.output);
     }
-    const { listens } = await client.getListens(options.user, {
-      min_ts: options.after ? timestamp(options.after) : undefined,
-      max_ts: options.before ? timestamp(options.before) : undefined,
+    if (options.all) {
+      const pages = getHistoryPages(client, user, {
+        minTs,
+        maxTs,
+        count: options.count ?? 1000,
+      });
+      let count = 0;
+      for await (const listens of pages) {
+        for (const listen of listens) {
+          if (downloadedKeys.has(getListenKey(listen))) continue;
+          if (!listenFilter(listen)) continue;
+          if (options.output) {
+            count++;
+          } else {
+            printer.print(listen);
+          }
+          await output.log(listen);
+        }
+        if (options.output) {
+          console.info(count, "listens downloaded");
+        }
+      }
+    } else {
+      const { listens } = await client.getListens(user, {
+        min_ts: minTs,
+        max_ts: maxTs,
+        count: options.count,
+      });
+      for (const listen of listens) {
+        if (listenFilter(listen)) {
+          printer.print(listen);
+          await output.log(listen);
+        }
+      }
+    }
+    printer.end();
+    await output.close();
+  })
+  // Synchronize archive
+  .command("sync <archive:file>")
+  .description(`
+    Mirror the listening history of yourself or another user into a JSONL file.
+    Only listens which are newer than the newest listen in the archive file are
+    downloaded and appended to it (or the full history if it does not exist).
+
+    Listens of the last days (before the newest archived listen) are checked
+    again, missing listens are appended and deleted listens are reported.
+  `)
+  .env("LB_USER=<name>", "ListenBrainz username.", { prefix: "LB_" })
+  .option("-u, --user <name>", "ListenBrainz username, defaults to yours.")
+  .option("-c, --count <number:integer>", "Number of listens per request.", {
+    default: 1000,
+  })
+  .option(
+    "-w, --window <days:number>",
+    "Number of days which are checked for deleted and missing listens.",
+    { default: 1 },
+  )
+  .option("-p, --preview", "Show new listens instead of appending them.")
+  .action(async function (options, archivePath) {
+    if (isStdio(archivePath)) {
+      throw new ValidationError(
+        "The archive has to be a file, not stdin/stdout",
+      );
+    }
+    const listenFilter = await getListenFilter(options.filter, options);
+    const client = createClient(options.token);
+    const user = await getUsername(client, options.user);
+    const range = await readTimeRange(archivePath);
+    const windowStart = range
+      ? range.newest - Math.round(options.window * 24 * 60 * 60)
+      : undefined;
+    const archivedListens = new Map<string, Listen>();
+    if (windowStart !== undefined) {
+      for await (const listen of readListensFile(archivePath)) {
+        if (listen.listened_at >= windowStart) {
+          archivedListens.set(getListenKey(listen), listen);
+        }
+      }
+    }
+    const pages = getHistoryPages(client, user, {
+      minTs: windowStart !== undefined ? windowStart - 1 : undefined,
       count: options.count,
     });
-    for (const listen of listens) {
-      if (listenFilter(listen)) {
-        console.log(formatListen(listen, options.listenTemplate));
+    const serverKeys = new Set<string>();
+    const newListens: Listen[] = [];
+    for await (const listens of pages) {
+      for (const listen of listens) {
+        const key = getListenKey(listen);
+        serverKeys.add(key);
+        if (!archivedListens.has(key) && listenFilter(listen)) {
+          newListens.push(listen);
+        }
+      }
+    }
+    // Append listens in chronological order, so that the newest archived
+    // listen is only written after all older listens have been written.
+    newListens.sort((a, b) => a.listened_at - b.listened_at);
+    const output = new JsonLogger();
+    if (!options.preview) {
+      await output.open(archivePath);
+    }
+    const printer = createListenPrinter(options);
+    for (const listen of newListens) {
+      if (options.preview) {
+        printer.print(listen);
+      } else {
         await output.log(listen);
       }
     }
+    printer.end();
     await output.close();
+    let deletedCount = 0;
+    for (const [key, listen] of archivedListens) {
+      if (!serverKeys.has(key)) {
+        console.warn("Deleted:", formatListen(listen, options.listenTemplate));
+        deletedCount++;
+      }
+    }
+    console.info(newListens.length, "new listens");
+    console.info(deletedCount, "deleted listens");
   })
   // Delete listens
-  .command("delete <path:file>", "Delete listens in a JSON file from history.")
+  .command("delete [path:file]")
+  .description(`
+    Delete listens in a JSON file from your history.
+    If no file is specified, your listening history is fetched from the server
+    and all listens in the given time range which match the filter are deleted
+    (after a confirmation).
+
+    Deleted listens are appended to a JSONL journal file, which can be imported
+    again to undo the deletion.
+  `)
   .option("-p, --preview", "Show listens instead of deleting them.")
+  .option(
+    "-j, --journal <path:file>",
+    "JSONL file to which deleted listens are appended.",
+    { default: "deleted-listens.jsonl" },
+  )
+  .option(
+    "-B, --batch-size <size:integer>",
+    "Number of listens which are deleted before saving a checkpoint per batch.",
+    { default: 100 },
+  )
+  .option(
+    "--checkpoint <path:file>",
+    "File which stores the progress (default: <path>.checkpoint.json).",
+  )
+  .example(
+    "Bad import",
+    `
+    Delete all listens of a day which were submitted by a specific parser.
+    ${cmd("elbisaur delete")} ${
+      opt("-a 2024-05-01 -b 2024-05-02 -f 'submission_client~=Spotify'")
+    }`,
+  )
   .action(async function (options, path) {
+    checkBatchSize(options.batchSize);
     const listenFilter = await getListenFilter(options.filter, options);
-    const listenSource = readListensFile(path);
-    const client = new ListenBrainzClient({ userToken: options.token });
+    const client = createClient(options.token);
+    let listenSource:
+      | AsyncIterable<Listen | InsertedListen>
+      | Iterable<InsertedListen>;
+    if (path) {
+      listenSource = readListensFile(path, options);
+    } else {
+      if (!options.after && !options.before && !options.filter) {
+        throw new ValidationError(
+          "Specify a time range or a filter to delete listens from the server",
+        );
+      }
+      const user = await getUsername(client);
+      const listens: InsertedListen[] = [];
+      const pages = getHistoryPages(client, user, {
+        minTs: options.after
+          ? parseTimestamp(options.after, options.timezone)
+          : undefined,
+        maxTs: options.before
+          ? parseTimestamp(options.before, options.timezone)
+          : undefined,
+        count: 1000,
+      });
+      for await (const page of pages) {
+        listens.push(...page.filter(listenFilter));
+      }
+      if (!options.preview && listens.length) {
+        if (!confirm(`Delete ${listens.length} listens of ${user}?`)) {
+          console.info("Deletion cancelled");
+          return;
+        }
+      }
+      listenSource = listens;
+    }
+    const checkpoint = path && !options.preview
+      ? await createCheckpoint("delete", path, options)
+      : undefined;
+    const completedCount = await checkpoint?.load() ?? 0;
+    if (completedCount) {
+      console.info("Resuming after", completedCount, "listens");
+    }
+    let processedCount = 0;
+    const selectListens = async function* () {
+      for await (const listen of listenSource) {
+        if (!listenFilter(listen) || !("recording_msid" in listen)) continue;
+        if (processedCount++ < completedCount) continue;
+        yield listen;
+      }
+    };
+    const printer = createListenPrinter(options);
+    const journal = new JsonLogger();
+    if (!options.preview) {
+      await journal.open(options.journal);
+    }
     let count = 0;
-    for await (const listen of listenSource) {
-      if (listenFilter(listen) && "recording_msid" in listen) {
+    for await (const batch of chunk(selectListens(), options.batchSize)) {
+      for (const listen of batch) {
         if (options.preview) {
-          console.log(formatListen(listen, options.listenTemplate));
+          printer.print(listen);
         } else {
           await client.deleteListen(listen);
+          await journal.log(listen);
           count++;
         }
       }
+      await checkpoint?.save(processedCount);
     }
+    await checkpoint?.remove();
+    printer.end();
+    await journal.close();
     console.info(count, "listens deleted");
+    if (count) {
+      console.info(`Deleted listens have been written to "${options.journal}"`);
+    }
   })
   // Import JSON
   .command("import <path:file>", "Import listens from the given JSON file.")
+  .env("LB_USER=<name>", "ListenBrainz username.", { prefix: "LB_" })
   .option("-p, --preview", "Show listens instead of submitting them.")
+  .option(
+    "-s, --skip-existing",
+    "Skip listens which are already in your listening history.",
+  )
+  .option(
+    "-t, --tolerance <seconds:integer>",
+    "Maximum time difference to an existing listen (with --skip-existing).",
+    { default: 0 },
+  )
+  .option(
+    "-B, --batch-size <size:integer>",
+    "Number of listens which are submitted per batch.",
+    { default: 100 },
+  )
+  .option(
+    "--checkpoint <path:file>",
+    "File which stores the progress (default: <path>.checkpoint.json).",
+  )
+  .option(
+    "--strict",
+    "Validate all listens first and refuse to submit any of them on errors.",
+  )
   .action(async function (options, path) {
+    checkBatchSize(options.batchSize);
     const listenFilter = await getListenFilter(options.filter, options);
-    const listenSource = readListensFile(path);
-    if (options.preview) {
-      for await (const listen of listenSource) {
-        if (listenFilter(listen)) {
-          console.log(formatListen(listen, options.listenTemplate));
+    const client = createClient(options.token);
+    // Listens from stdin have to be buffered as they are read twice.
+    const bufferedListens = isStdio(path) &&
+        (options.skipExisting || options.strict)
+      ? await Array.fromAsync(readListensFile(path, options))
+      : undefined;
+    const readListens = () => bufferedListens ?? readListensFile(path, options);
+    if (options.strict) {
+      // Listens from files are validated by line, buffered listens by position.
+      // Only the listens which would be submitted are validated.
+      const validator = new ListenValidator();
+      const issues = bufferedListens?.flatMap((listen, index) =>
+        listenFilter(listen)
+          ? validator.validate(listen).map((issue) => ({
+            position: index + 1,
+            ...issue,
+          }))
+          : []
+      ) ?? validateListensFile(path, { filter: listenFilter });
+      let errorCount = 0;
+      for await (const issue of issues) {
+        printValidationIssue(issue);
+        if (issue.severity === "error") {
+          errorCount++;
         }
       }
-    } else {
-      const client = new ListenBrainzClient({ userToken: options.token });
-      let listenBuffer: Listen[] = [];
-      let count = 0;
+      if (errorCount) {
+        throw new ValidationError(
+          `Validation failed with ${errorCount} errors, no listens have been submitted`,
+        );
+      }
+    }
+    let existingListens: ListenIndex | undefined;
+    if (options.skipExisting) {
+      const range = await getTimeRange(readListens(), listenFilter);
+      if (range) {
+        const user = await getUsername(client, options.user);
+        existingListens = await indexHistory(
+          client,
+          user,
+          range,
+          options.tolerance,
+        );
+      }
+    }
+    const listenSource = readListens();
+    let skippedCount = 0;
+    if (options.preview) {
+      const printer = createListenPrinter(options);
       for await (const listen of listenSource) {
         if (!listenFilter(listen)) continue;
-        const newListen = cleanListen(listen);
-        setSubmissionClient(newListen.track_metadata, {
-          name: "elbisaur (JSON importer)",
-          version: this.getVersion()!,
-        });
-        if (listenBuffer.push(newListen) >= 100) {
-          await client.import(listenBuffer);
-          count += listenBuffer.length;
-          console.info(count, "listens imported");
-          listenBuffer = [];
+        if (existingListens?.has(listen)) {
+          console.warn(
+            "Skipped:",
+            formatListen(listen, options.listenTemplate),
+          );
+          skippedCount++;
+        } else {
+          printer.print(listen);
         }
       }
-      if (listenBuffer.length) {
-        await client.import(listenBuffer);
-        count += listenBuffer.length;
+      printer.end();
+    } else {
+      const checkpoint = await createCheckpoint("import", path, options);
+      const completedCount = await checkpoint?.load() ?? 0;
+      if (completedCount) {
+        console.info("Resuming after", completedCount, "listens");
+      }
+      const version = this.getVersion()!;
+      let processedCount = 0;
+      const selectListens = async function* () {
+        for await (const listen of listenSource) {
+          if (!listenFilter(listen)) continue;
+          if (processedCount++ < completedCount) continue;
+          if (existingListens?.has(listen)) {
+            skippedCount++;
+            continue;
+          }
+          const newListen = cleanListen(listen);
+          setSubmissionClient(newListen.track_metadata, {
+            name: "elbisaur (JSON importer)",
+            version,
+          });
+          yield newListen;
+        }
+      };
+      let count = 0;
+      for await (const batch of chunk(selectListens(), options.batchSize)) {
+        await client.import(batch);
+        count += batch.length;
+        await checkpoint?.save(processedCount);
         console.info(count, "listens imported");
       }
+      await checkpoint?.remove();
+    }
+    if (options.skipExisting) {
+      console.info(skippedCount, "existing listens skipped");
+    }
+  })
+  // Validate listens
+  .command("validate <path:file>")
+  .description(`
+    Check all listens in a JSON file for problems before they are submitted.
+    Each problem is reported with the line number (or the position of the
+    listen) and a severity. Problems in ListenBrainz export archives (ZIP) are
+    additionally reported with the name of the monthly listen file.
+    Only listens which pass the filter options are checked.
+
+    Severities:
+      error   = Listen will be rejected by ListenBrainz (or has invalid data)
+      warning = Listen is accepted, but its data is suspicious
+  `)
+  .example(
+    "Parsed log",
+    `
+    Check the listens which have been parsed from a .scrobbler.log file.
+    ${cmd("elbisaur validate scrobbles.jsonl")}`,
+  )
+  .action(async function (options, path) {
+    const listenFilter = await getListenFilter(options.filter, options);
+    let errorCount = 0, warningCount = 0;
+    const issues = validateListensFile(path, { filter: listenFilter });
+    for await (const issue of issues) {
+      printValidationIssue(issue);
+      if (issue.severity === "error") {
+        errorCount++;
+      } else {
+        warningCount++;
+      }
+    }
+    console.info(errorCount, "errors");
+    console.info(warningCount, "warnings");
+    if (errorCount) {
+      Deno.exitCode = 1;
     }
   })
   // Submit listen
-  .command("listen <url|metadata> [track-range]")
+  .command("listen [url|metadata] [track-range]")
   .description(`
     Submit listens for selected tracks from a release (given by its URL).
       <url>         = "https://musicbrainz.org/release/<MBID>"
       [track-range] = <first>-<last> | <prefix> | <medium>:<first>-<last>
+    Release group URLs are also accepted, a release is picked based on the
+    given preferences or chosen interactively.
+      <url>         = "https://musicbrainz.org/release-group/<MBID>"
+    Or submit a single listen for a recording or a track (given by its URL).
+      <url>         = "https://musicbrainz.org/recording/<MBID>"
+      <url>         = "https://musicbrainz.org/track/<MBID>"
     Or submit a single listen using the given track metadata.
       <metadata>    = "<artist> - <track-title>"
+
+    Or submit listens for a listening session from a text or YAML file, which
+    contains one of the above per line (URLs followed by an optional track
+    range) or per list item. Items are listened back to back, pauses can be
+    added with "pause <duration>" lines.
   `)
   .noGlobals() // except for the two env variables which are redefined below
   .env("LB_TOKEN=<UUID>", "ListenBrainz user token.", {
@@ -186,82 +634,163 @@ export const cli = new Command()
   .option("--until <datetime>", "Date/Time when you stopped listening.", {
     conflicts: ["at", "now"],
   })
+  .option(
+    "-z, --timezone <name>",
+    "Time zone (IANA name) of dates and times without UTC offset.",
+  )
+  .option(
+    "-q, --queue <path:file>",
+    "Submit listens for all items of a listening session file.",
+    { conflicts: ["now"] },
+  )
+  .option(
+    "-g, --gap <seconds:integer>",
+    "Gap between two items of a listening session.",
+    { default: 0, depends: ["queue"] },
+  )
+  .option(
+    "--track-duration <seconds:integer>",
+    "Duration of session tracks without known length (free-text entries).",
+    { default: 240, depends: ["queue"] },
+  )
+  .option(
+    "--medium-format <formats:string[]>",
+    "Preferred medium formats of a release (for release group URLs).",
+  )
+  .option(
+    "--country <codes:string[]>",
+    "Preferred countries of a release (for release group URLs).",
+  )
+  .option(
+    "--choose-release",
+    "Choose a release of a release group interactively.",
+  )
   .option("-e, --edit <expression>", "Edit track metadata.", { collect: true })
   .option("-p, --preview", "Show listens instead of submitting them.")
+  .type("format", new EnumType(outputFormats))
+  .option("--format <format:format>", "Output format of listens.", {
+    default: "text" as const,
+  })
+  .option(
+    "--columns <keys:string[]>",
+    "Listen properties which are shown by tabular output formats.",
+  )
+  .example(
+    "Vinyl evening",
+    `
+    Submit listens for a session which ended at 23:30, with 1 minute gaps.
+    ${cmd("elbisaur listen")} ${
+      opt("--queue session.txt --until 23:30 --gap 60")
+    }`,
+  )
   .action(async function (options, input, trackRange) {
+    if (options.timezone && !isValidTimeZone(options.timezone)) {
+      throw new ValidationError(`Invalid time zone "${options.timezone}"`);
+    }
+    if (!input && !options.queue) {
+      throw new ValidationError(
+        'Missing argument "url|metadata" or option "--queue".',
+      );
+    } else if (input && options.queue) {
+      throw new ValidationError(
+        'Argument "url|metadata" can not be combined with option "--queue".',
+      );
+    }
     // Use the current time as end time by default, unless a start time is specified.
-    let endTime: number | undefined = timestamp(options.until);
+    let endTime: number | undefined = options.until
+      ? parseTimestamp(options.until, options.timezone)
+      : timestamp();
     if (isNaN(endTime)) {
       throw new ValidationError(`Invalid date "${options.until}"`);
     }
     let startTime: number | undefined;
     if (options.at) {
-      startTime = timestamp(options.at);
+      startTime = parseTimestamp(options.at, options.timezone);
       if (isNaN(startTime)) {
         throw new ValidationError(`Invalid date "${options.at}"`);
       }
       endTime = undefined;
     }
     const editListen = getListenModifier(options.edit);
-    const client = new ListenBrainzClient({ userToken: options.token });
+    const client = createClient(options.token);
+    const printer = createListenPrinter(options);
+    const musicBrainz = new MusicBrainzListenSource({
+      name: "elbisaur",
+      version: this.getVersion()!,
+      contact: contactUrl,
+    }, {
+      formats: options.mediumFormat,
+      countries: options.country,
+      interactive: options.chooseRelease,
+    });
     let url: URL | undefined;
     try {
-      url = new URL(input);
+      url = input ? new URL(input) : undefined;
     } catch {
       url = undefined;
     }
-    if (url) {
-      const mbid = musicBrainzUrlPattern.exec(url)?.pathname.groups.mbid;
-      if (mbid) {
-        const mb = new MusicBrainzClient({
-          app: {
-            name: "elbisaur",
-            version: this.getVersion()!,
-            contact: contactUrl,
-          },
-        });
-        const release = await mb.lookup("release", mbid, {
-          inc: ["recordings", "artist-credits"],
+    if (options.queue) {
+      const items = await loadListeningSession(options.queue);
+      const listens = await createSessionListens(items, {
+        startTime,
+        endTime,
+        gap: options.gap,
+        defaultDuration: options.trackDuration,
+        resolveUrl: (itemUrl, itemTracks, itemStartTime) =>
+          musicBrainz.getListens(itemUrl, {
+            trackRange: itemTracks,
+            startTime: itemStartTime,
+          }),
+      });
+      for (const listen of listens) {
+        editListen(listen);
+        setSubmissionClient(listen.track_metadata, {
+          name: "elbisaur (session submitter)",
+          version: this.getVersion()!,
         });
-        const listens = parseMusicBrainzRelease(release, {
-          startTime,
-          endTime,
-          tracks: parseTrackRange(trackRange ?? ""),
+        if (options.preview) {
+          printer.print(listen);
+        }
+      }
+      if (!options.preview) {
+        await client.import(listens);
+        console.info(listens.length, "listens submitted");
+      }
+    } else if (url) {
+      const listens = await musicBrainz.getListens(url, {
+        trackRange,
+        startTime,
+        endTime,
+      });
+      for (const listen of listens) {
+        editListen(listen);
+        setSubmissionClient(listen.track_metadata, {
+          name: "elbisaur (release submitter)",
+          version: this.getVersion()!,
         });
-        for (const listen of listens) {
-          editListen(listen);
-          setSubmissionClient(listen.track_metadata, {
-            name: "elbisaur (release submitter)",
-            version: this.getVersion()!,
-          });
-          if (options.preview) {
-            console.log(formatListen(listen, options.listenTemplate));
-          }
+        if (options.preview) {
+          printer.print(listen);
         }
-        if (!options.preview) {
-          if (options.now) {
-            if (listens.length === 1) {
-              await client.playingNow(listens[0].track_metadata);
-            } else {
-              throw new ValidationError(
-                "Playing now notification can only be submitted for one track.",
-              );
-            }
+      }
+      if (!options.preview) {
+        if (options.now) {
+          if (listens.length === 1) {
+            await client.playingNow(listens[0].track_metadata);
           } else {
-            await client.import(listens);
-            console.info(listens.length, "listens submitted");
+            throw new ValidationError(
+              "Playing now notification can only be submitted for one track.",
+            );
           }
+        } else {
+          await client.import(listens);
+          console.info(listens.length, "listens submitted");
         }
-      } else {
-        throw new ValidationError(
-          "Unsupported URL, only MusicBrainz release URLs are allowed.",
-        );
       }
     } else {
       if (!startTime) {
         throw new ValidationError('Missing value for option "--at".');
       }
-      const trackMatch = input.match(/(?<artist>.+?) -+ (?<title>.+)/);
+      const trackMatch = input!.match(/(?<artist>.+?) -+ (?<title>.+)/);
       if (trackMatch?.groups) {
         const track: Track = {
           artist_name: trackMatch.groups.artist,
@@ -277,7 +806,7 @@ export const cli = new Command()
           version: this.getVersion()!,
         });
         if (options.preview) {
-          console.log(formatListen(listen), options.listenTemplate);
+          printer.print(listen);
         } else {
           if (options.now) {
             await client.playingNow(track);
@@ -291,18 +820,24 @@ export const cli = new Command()
         throw new ValidationError(`Invalid metadata format "${input}"`);
       }
     }
+    printer.end();
   })
   // File parser
   .command("parse <input:file> [output:file]")
   .description(`
     Parse listens from the given input file and write them into a JSONL file.
     If no output file is specified, it will have the same name as the input,
-    but with a ".jsonl" extension.
+    but with a ".jsonl" extension (or stdout if the input is read from stdin).
+    The format of the input is detected from its content.
 
     Skipped listens are not discarded by default, but this should usually be
     done using a filter option, see examples.
 
-    Supported formats: .scrobbler.log, Spotify Extended Streaming History (*.json)
+    Supported formats:
+      .scrobbler.log
+      Spotify Extended Streaming History (*.json)
+      Last.fm scrobble export (*.csv, *.json)
+      YouTube Music history from Google Takeout (watch-history.json)
   `)
   .option("-d, --debug", "Include debugging info in listens (if available).")
   .option("-p, --preview", "Show listens instead of writing them.")
@@ -311,6 +846,11 @@ export const cli = new Command()
     "Add a time offset (in seconds) to all timestamps.",
     { default: 0 },
   )
+  .option(
+    "-z, --timezone <name>",
+    "Interpret timestamps (and dates) as local time of the zone (IANA name).",
+    { override: true },
+  )
   .example(
     "Rockbox log",
     `
@@ -326,95 +866,470 @@ export const cli = new Command()
       opt("--filter 'skipped!=1&&duration_ms>=30e3'")
     }`,
   )
+  .example(
+    "Local time",
+    `
+    Parse a .scrobbler.log file which has been written with local time (CET/CEST).
+    ${cmd("elbisaur parse .scrobbler.log")} ${opt("--timezone Europe/Berlin")}`,
+  )
+  .example(
+    "Last.fm export",
+    `
+    Parse scrobbles which were exported from Last.fm and shift them by one hour.
+    ${cmd("elbisaur parse scrobbles.csv")} ${opt("--time-offset 3600")}`,
+  )
+  .action(async function (options, inputPath, outputPath) {
+    const { format, stream, data } = await openInputFile(inputPath);
+    const onInvalidItem = (_item: unknown, index: number, reason: string) =>
+      console.warn(`Skipped item at index ${index}: ${reason}`);
+    let listens: Iterable<Listen> | AsyncIterable<Listen>;
+    let parserName: string;
+    switch (format) {
+      case "scrobbler-log":
+        listens = parseScrobblerLog(stream);
+        parserName = ".scrobbler.log parser";
+        break;
+      case "spotify":
+        // The Spotify parser only accepts JSON text, which has to be parsed again.
+        listens = parseSpotifyExtendedHistory(await readText(stream), {
+          includeDebugInfo: options.debug,
+          onInvalidItem,
+        });
+        parserName = "Spotify Extended Streaming History parser";
+        break;
+      case "lastfm-csv":
+        listens = parseLastFmCsv(await readText(stream), { onInvalidItem });
+        parserName = "Last.fm parser";
+        break;
+      case "lastfm-json":
+        listens = parseLastFmJson(data, { onInvalidItem });
+        parserName = "Last.fm parser";
+        break;
+      case "youtube":
+        listens = parseYouTubeMusicHistory(data, { onInvalidItem });
+        parserName = "YouTube Music history parser";
+        break;
+      default:
+        await stream.cancel();
+        throw new ValidationError(
+          `"${inputPath}" already contains listens, it does not have to be parsed`,
+        );
+    }
+
+    const listenFilter = await getListenFilter(options.filter, options);
+    const printer = createListenPrinter(options);
+    const output = new JsonLogger();
+    if (!options.preview) {
+      await output.open(
+        outputPath ?? (isStdio(inputPath) ? stdioPath : inputPath + ".jsonl"),
+      );
+    }
+    for await (const listen of listens) {
+      if (options.timezone) {
+        // The .scrobbler.log parser has already converted the timestamps from
+        // the local time zone of the system, which has to be undone first.
+        const wallClockTime = format === "scrobbler-log"
+          ? getSystemWallClockTime(listen.listened_at)
+          : listen.listened_at;
+        listen.listened_at = zonedTimeToUtc(wallClockTime, options.timezone);
+      }
+      if (listenFilter(listen)) {
+        listen.listened_at += options.timeOffset;
+        setSubmissionClient(listen.track_metadata, {
+          name: `elbisaur (${parserName})`,
+          version: this.getVersion()!,
+        });
+        if (options.preview) {
+          printer.print(listen);
+        } else {
+          await output.log(listen);
+        }
+      }
+    }
+    printer.end();
+    await output.close();
+  })
+  // Remove duplicates
+  .command("dedupe <input:file> <output:file>")
+  .description(`
+    Detect duplicate listens in a JSON input file and write the remaining
+    listens into a JSONL file. Of each group of duplicates, the listen with the
+    richest metadata (MBIDs and other additional info) is kept.
+
+    Identities:
+      track = Same artist and track name (ignoring case and diacritics)
+      msid  = Same recording MSID (only available for submitted listens)
+  `)
+  .type("identity", new EnumType(duplicateIdentities))
+  .option(
+    "-I, --identity <identity:identity>",
+    "Track properties which have to be identical for duplicates.",
+    { default: "track" as const },
+  )
+  .option(
+    "-t, --tolerance <seconds:integer>",
+    "Maximum time difference between duplicate listens.",
+    { default: 0 },
+  )
+  .option("-p, --preview", "Only show duplicates instead of writing listens.")
+  .example(
+    "Merged dumps",
+    `
+    Remove listens of the same track which are less than 5 minutes apart.
+    ${cmd("elbisaur dedupe merged.jsonl deduplicated.jsonl")} ${
+      opt("--tolerance 300")
+    }`,
+  )
   .action(async function (options, inputPath, outputPath) {
-    const extension = extname(inputPath);
     const listenFilter = await getListenFilter(options.filter, options);
+    const listens: Listen[] = [];
+    for await (const listen of readListensFile(inputPath, options)) {
+      if (listenFilter(listen)) {
+        listens.push(listen);
+      }
+    }
+    const groups = groupDuplicates(listens, {
+      identity: options.identity,
+      tolerance: options.tolerance,
+    });
     const output = new JsonLogger();
     if (!options.preview) {
-      await output.open(outputPath ?? inputPath + ".jsonl");
+      await output.open(outputPath);
     }
-    if (extension === ".log") {
-      const inputFile = await Deno.open(inputPath);
-      const input = inputFile.readable.pipeThrough(new TextDecoderStream());
-      for await (const listen of parseScrobblerLog(input)) {
-        if (listenFilter(listen)) {
-          listen.listened_at += options.timeOffset;
-          setSubmissionClient(listen.track_metadata, {
-            name: "elbisaur (.scrobbler.log parser)",
-            version: this.getVersion()!,
-          });
-          if (options.preview) {
-            console.log(formatListen(listen, options.listenTemplate));
-          } else {
-            await output.log(listen);
-          }
+    let droppedCount = 0;
+    for (const { kept, dropped } of groups) {
+      if (dropped.length) {
+        console.log("Kept:", formatListen(kept, options.listenTemplate));
+        for (const listen of dropped) {
+          console.log("Dropped:", formatListen(listen, options.listenTemplate));
         }
+        droppedCount += dropped.length;
       }
-    } else if (extension === ".json") {
-      const input = await Deno.readTextFile(inputPath);
-      const history = parseSpotifyExtendedHistory(input, {
-        includeDebugInfo: options.debug,
-        onInvalidItem: (_item, index, reason) =>
-          console.warn(`Skipped item at index ${index}: ${reason}`),
+      await output.log(kept);
+    }
+    await output.close();
+    console.info(droppedCount, "duplicate listens dropped");
+    console.info(groups.length, "listens kept");
+  })
+  // Combine listens
+  .command("merge <paths...:file>")
+  .usage("<inputs...:file> <output:file>")
+  .description(`
+    Merge listens from multiple JSON input files into a JSONL file, sorted by
+    their timestamps. The last path is the output file, which is replaced.
+
+    Listens are streamed from chronologically sorted inputs, only inputs which
+    are not sorted (such as listening histories) have to be loaded into memory.
+  `)
+  .option("-d, --dedupe", "Remove duplicate listens (see dedupe command).")
+  .type("identity", new EnumType(duplicateIdentities))
+  .option(
+    "-I, --identity <identity:identity>",
+    "Track properties which have to be identical for duplicates.",
+    { default: "track" as const, depends: ["dedupe"] },
+  )
+  .option(
+    "-t, --tolerance <seconds:integer>",
+    "Maximum time difference between duplicate listens.",
+    { default: 0, depends: ["dedupe"] },
+  )
+  .option("-p, --preview", "Show listens instead of writing them.")
+  .example(
+    "Multiple sources",
+    `
+    Combine listens from a parsed log and a Spotify history without duplicates.
+    ${cmd("elbisaur merge scrobbles.jsonl spotify.jsonl merged.jsonl")} ${
+      opt("--dedupe --tolerance 300")
+    }`,
+  )
+  .action(async function (options, ...paths) {
+    const outputPath = paths.pop()!;
+    if (!paths.length) {
+      throw new ValidationError("Missing input files before the output file");
+    }
+    if (paths.some(isStdio)) {
+      throw new ValidationError("Merging listens from stdin is not supported");
+    }
+    // The output file is replaced, which would destroy an input file.
+    const outputFile = isStdio(outputPath)
+      ? undefined
+      : await Deno.realPath(outputPath).catch((error) => {
+        if (!(error instanceof Deno.errors.NotFound)) throw error;
       });
-      for (const listen of history) {
-        if (listenFilter(listen)) {
-          listen.listened_at += options.timeOffset;
-          setSubmissionClient(listen.track_metadata, {
-            name: "elbisaur (Spotify Extended Streaming History parser)",
-            version: this.getVersion()!,
-          });
-          if (options.preview) {
-            console.log(formatListen(listen, options.listenTemplate));
-          } else {
-            await output.log(listen);
-          }
+    for (const path of paths) {
+      if (outputFile && await Deno.realPath(path) === outputFile) {
+        throw new ValidationError(`Output file "${outputPath}" is an input`);
+      }
+    }
+    const listenFilter = await getListenFilter(options.filter, options);
+    const sources: AsyncIterable<Listen>[] = [];
+    for (const path of paths) {
+      if (await isChronological(readListensFile(path, options))) {
+        sources.push(readListensFile(path, options));
+      } else {
+        console.warn(`"${path}" is not sorted, loading it into memory`);
+        const listens = await Array.fromAsync(readListensFile(path, options));
+        listens.sort((a, b) => a.listened_at - b.listened_at);
+        sources.push((async function* () {
+          yield* listens;
+        })());
+      }
+    }
+    const selectListens = async function* () {
+      for await (const listen of mergeListens(sources)) {
+        if (listenFilter(listen)) yield listen;
+      }
+    };
+    const printer = createListenPrinter(options);
+    const output = new JsonLogger();
+    if (!options.preview) {
+      await output.open(outputPath, { truncate: true });
+    }
+    let count = 0, droppedCount = 0;
+    const groups = options.dedupe
+      ? groupSortedDuplicates(selectListens(), {
+        identity: options.identity,
+        tolerance: options.tolerance,
+      })
+      : (async function* () {
+        for await (const kept of selectListens()) {
+          yield { kept, dropped: [] as Listen[] };
         }
+      })();
+    for await (const { kept, dropped } of groups) {
+      droppedCount += dropped.length;
+      if (options.preview) {
+        printer.print(kept);
+      } else {
+        await output.log(kept);
       }
-    } else {
-      throw new ValidationError(`Unsupported file format "${extension}"`);
+      count++;
     }
+    printer.end();
     await output.close();
+    if (options.dedupe) {
+      console.info(droppedCount, "duplicate listens dropped");
+    }
+    console.info(count, "listens merged");
+  })
+  // Partition listens
+  .command("split <input:file> <directory:file>")
+  .description(`
+    Split listens from a JSON input file into JSONL files per time period,
+    which are written into the given directory.
+    Files are named after their period, e.g. "2024.jsonl" or "2024-01.jsonl".
+    Existing files of the same periods are replaced.
+    Periods are in UTC, unless a time zone is specified.
+  `)
+  .type("period", new EnumType(splitPeriods))
+  .option("-P, --period <unit:period>", "Time period of each file.", {
+    default: "year" as const,
+  })
+  .example(
+    "Monthly files",
+    `
+    Split a ListenBrainz export into one file per month.
+    ${cmd("elbisaur split listenbrainz_export.zip listens/")} ${
+      opt("--period month")
+    }`,
+  )
+  .action(async function (options, inputPath, directory) {
+    if (isStdio(directory)) {
+      throw new ValidationError("Output directory can not be stdout");
+    }
+    const listenFilter = await getListenFilter(options.filter, options);
+    await Deno.mkdir(directory, { recursive: true });
+    const outputs = new Map<string, JsonLogger>();
+    const counts = new Map<string, number>();
+    try {
+      for await (const listen of readListensFile(inputPath, options)) {
+        if (!listenFilter(listen)) continue;
+        const period = getTimePeriod(
+          listen.listened_at,
+          options.period,
+          options.timezone,
+        );
+        let output = outputs.get(period);
+        if (!output) {
+          output = new JsonLogger();
+          await output.open(join(directory, `${period}.jsonl`), {
+            truncate: true,
+          });
+          outputs.set(period, output);
+        }
+        await output.log(listen);
+        counts.set(period, (counts.get(period) ?? 0) + 1);
+      }
+    } finally {
+      for (const output of outputs.values()) {
+        await output.close();
+      }
+    }
+    for (const [period, count] of [...counts].sort()) {
+      console.info(count, `listens written into "${period}.jsonl"`);
+    }
+  })
+  // Compare listens
+  .command("diff <a> <b>")
+  .description(`
+    Compare listens from two sources, which are either JSON files or the
+    listening history of a user (given as "user:<name>", or "user:" for yours).
+    Listens are matched by their timestamps, matched listens of different
+    tracks or with different metadata are reported as changed.
+
+    Unless a time range is specified, listening histories are only fetched for
+    the time range which is covered by the listens of the file(s).
+  `)
+  .option(
+    "-A, --only-a <path:file>",
+    "Write listens which only exist in A into a JSONL file.",
+  )
+  .option(
+    "-B, --only-b <path:file>",
+    "Write listens which only exist in B into a JSONL file.",
+  )
+  .option(
+    "-C, --changed <path:file>",
+    "Write pairs of changed listens (as objects with keys a and b) into a JSONL file.",
+  )
+  .example(
+    "Failed import",
+    `
+    Find listens of a file which are missing in your history to import them.
+    ${cmd("elbisaur diff listens.jsonl user:")} ${
+      opt("--only-a missing.jsonl")
+    }`,
+  )
+  .action(async function (options, a, b) {
+    const listenFilter = await getListenFilter(options.filter, options);
+    const readFile = async (path: string) => {
+      const listens: Listen[] = [];
+      for await (const listen of readListensFile(path, options)) {
+        if (listenFilter(listen)) listens.push(listen);
+      }
+      return listens;
+    };
+    const listensA = isHistoryReference(a) ? undefined : await readFile(a);
+    const listensB = isHistoryReference(b) ? undefined : await readFile(b);
+    const range = await getTimeRange([
+      ...(listensA ?? []),
+      ...(listensB ?? []),
+    ]);
+    const readHistory = async (reference: string) => {
+      const client = createClient(options.token);
+      const user = await getUsername(
+        client,
+        reference.slice(historyPrefix.length) || undefined,
+      );
+      const pages = getHistoryPages(client, user, {
+        minTs: options.after
+          ? parseTimestamp(options.after, options.timezone)
+          : range && range.oldest - 1,
+        maxTs: options.before
+          ? parseTimestamp(options.before, options.timezone)
+          : range && range.newest + 1,
+        count: 1000,
+      });
+      const listens: Listen[] = [];
+      for await (const page of pages) {
+        listens.push(...page.filter(listenFilter));
+      }
+      return listens;
+    };
+
+    const { onlyA, onlyB, changed, unchangedCount } = diffListens(
+      listensA ?? await readHistory(a),
+      listensB ?? await readHistory(b),
+    );
+    const outputs = [
+      [options.onlyA, onlyA],
+      [options.onlyB, onlyB],
+      [options.changed, changed],
+    ] as const;
+    for (const [path, entries] of outputs) {
+      if (!path) continue;
+      const output = new JsonLogger();
+      await output.open(path);
+      for (const entry of entries) {
+        await output.log(entry);
+      }
+      await output.close();
+    }
+    const template = options.listenTemplate;
+    for (const listen of onlyA) {
+      console.log("Only in A:", formatListen(listen, template));
+    }
+    for (const listen of onlyB) {
+      console.log("Only in B:", formatListen(listen, template));
+    }
+    for (const pair of changed) {
+      console.log("Changed A:", formatListen(pair.a, template));
+      console.log("Changed B:", formatListen(pair.b, template));
+    }
+    console.info(onlyA.length, "listens only in A");
+    console.info(onlyB.length, "listens only in B");
+    console.info(changed.length, "changed listens");
+    console.info(unchangedCount, "unchanged listens");
   })
   // Listen statistics
   .command("statistics <path:file>", "Show statistics for the given JSON file.")
+  .type("time-unit", new EnumType(timeUnits))
   .option(
     "-k, --keys <keys:string[]>",
-    "Track metadata keys to generate statistics for.",
-    { default: ["artist_name", "release_name"] },
+    "Track metadata keys to generate statistics for (default: artist_name, release_name).",
+  )
+  .option(
+    "-T, --time <units:time-unit[]>",
+    "Count listens per period of the given time units (replaces default keys).",
+  )
+  .option(
+    "-d, --duration",
+    "Show listening time (calculated from duration_ms or duration).",
+  )
+  .option("-D, --dates", "Show dates of the first and the last listen.")
+  .option("-n, --limit <number:integer>", "Only show the top values per key.")
+  .example(
+    "Monthly listening time",
+    `
+    Show the number of listens and the listening time for each month of 2024.
+    ${cmd("elbisaur statistics listens.jsonl")} ${
+      opt("--time month --duration -a 2024-01-01 -b 2025-01-01")
+    }`,
   )
   .action(async function (options, path) {
     const listenFilter = await getListenFilter(options.filter, options);
-    const listenSource = readListensFile(path);
-    const valueCounts: Record<string, Record<string, number>> = {};
-    for (const key of options.keys) {
-      valueCounts[key] = {};
-    }
+    const listenSource = readListensFile(path, options);
+    const statistics = new ListenStatistics({
+      keys: options.keys ??
+        (options.time ? [] : ["artist_name", "release_name"]),
+      timeUnits: options.time,
+      timeZone: options.displayTimezone ? options.timezone : undefined,
+    });
     for await (const listen of listenSource) {
-      if (!listenFilter(listen)) continue;
-      const track = listen.track_metadata;
-      const info = track.additional_info;
-      for (const key of options.keys) {
-        const values = track[key as keyof Track] ??
-          info?.[key as keyof AdditionalTrackInfo];
-        const valueCountsForKey = valueCounts[key];
-        for (const value of makeValidIndexTypes(values)) {
-          if (valueCountsForKey[value]) {
-            valueCountsForKey[value]++;
-          } else {
-            valueCountsForKey[value] = 1;
-          }
-        }
+      if (listenFilter(listen)) {
+        statistics.add(listen);
       }
     }
-    // Print stats with values ordered by count in descending order.
-    for (const key of options.keys) {
-      console.log(`\n${key}:`);
-      const stats = Object.entries(valueCounts[key])
-        .sort(([_a, countA], [_b, countB]) => countB - countA);
-      for (const [value, count] of stats) {
-        console.log(count, "\t", value !== "" ? value : undefined);
+    if (options.format !== "text") {
+      const columns = ["key", "value", "count"];
+      if (options.duration) columns.push("duration_ms");
+      if (options.dates) columns.push("first", "last");
+      const writer = new TableWriter(options.format, columns);
+      for (const group of statistics.groups) {
+        for (const stats of sortValues(group, options.limit)) {
+          writer.write({
+            key: group.name,
+            value: stats.value,
+            count: stats.count,
+            duration_ms: stats.duration,
+            first: formatDate(stats.first, statistics.timeZone),
+            last: formatDate(stats.last, statistics.timeZone),
+          });
+        }
       }
+      writer.end();
+    } else {
+      printStatistics(statistics, options);
     }
   })
   // Modify listens
@@ -424,21 +1339,39 @@ export const cli = new Command()
   )
   .option("-p, --preview", "Show listens instead of writing them.")
   .option("-e, --edit <expression>", "Edit track metadata.", { collect: true })
+  .option(
+    "-r, --rules <path:file>",
+    "YAML file with a list of rules, which edit listens matching a filter.",
+  )
   .option(
     "-t, --time-offset <seconds:integer>",
     "Add a time offset (in seconds) to all timestamps.",
     { default: 0 },
   )
+  .option(
+    "-z, --timezone <name>",
+    "Interpret timestamps (and dates) as local time of the zone (IANA name).",
+    { override: true },
+  )
   .action(async function (options, inputPath, outputPath) {
     const listenFilter = await getListenFilter(options.filter, options);
     const editListen = getListenModifier(options.edit);
-    const listenSource = readListensFile(inputPath);
+    const rules = options.rules ? await loadListenRules(options.rules) : [];
+    const listenSource = readListensFile(inputPath, options);
+    const printer = createListenPrinter(options);
     const output = new JsonLogger();
     if (!options.preview) {
       await output.open(outputPath);
     }
     for await (const listen of listenSource) {
+      if (options.timezone) {
+        listen.listened_at = zonedTimeToUtc(
+          listen.listened_at,
+          options.timezone,
+        );
+      }
       if (listenFilter(listen)) {
+        applyListenRules(rules, listen);
         editListen(listen);
         listen.listened_at += options.timeOffset;
         setSubmissionClient(listen.track_metadata, {
@@ -447,13 +1380,154 @@ export const cli = new Command()
           overwrite: true,
         });
         if (options.preview) {
-          console.log(formatListen(listen, options.listenTemplate));
+          printer.print(listen);
         } else {
           await output.log(listen);
         }
       }
     }
+    printer.end();
     await output.close();
+    for (const rule of rules) {
+      console.info(rule.matchCount, `listens matched "${rule.name}"`);
+    }
+  })
+  // Map listens to MusicBrainz
+  .command("map <input:file> <output:file>")
+  .description(`
+    Look up MusicBrainz recordings for listens from a JSON input file and write
+    them into a JSONL file. Listens which already have a recording MBID are
+    kept as they are.
+
+    MBIDs are only added for confident matches, which have a search score of at
+    least the given minimum and the same title and artist (ignoring case and
+    diacritics) as the listen. Uncertain matches are reported instead.
+    Results are cached, so that each track is only looked up once.
+  `)
+  .option(
+    "-s, --min-score <score:integer>",
+    "Minimum search score (0-100) of a confident match.",
+    { default: 90 },
+  )
+  .option(
+    "-c, --cache <path:file>",
+    "JSONL file which caches the results of previous lookups.",
+    { default: ".elbisaur-mapping.jsonl" },
+  )
+  .option("-p, --preview", "Show listens instead of writing them.")
+  .example(
+    "Scrobbles",
+    `
+    Add MBIDs to listens from a .scrobbler.log file which have a perfect match.
+    ${cmd("elbisaur map scrobbles.jsonl mapped.jsonl")} ${
+      opt("--min-score 100")
+    }`,
+  )
+  .action(async function (options, inputPath, outputPath) {
+    const listenFilter = await getListenFilter(options.filter, options);
+    const mapper = new RecordingMapper({
+      name: "elbisaur",
+      version: this.getVersion()!,
+      contact: contactUrl,
+    });
+    await mapper.openCache(options.cache);
+    const printer = createListenPrinter(options);
+    const output = new JsonLogger();
+    if (!options.preview) {
+      await output.open(outputPath);
+    }
+    let mappedCount = 0, uncertainCount = 0, unknownCount = 0;
+    for await (const listen of readListensFile(inputPath, options)) {
+      if (!listenFilter(listen)) continue;
+      if (!listen.track_metadata.additional_info?.recording_mbid) {
+        const match = await mapper.findRecording(listen);
+        const formattedListen = formatListen(listen, options.listenTemplate);
+        if (!match) {
+          console.warn("No match:", formattedListen);
+          unknownCount++;
+        } else if (
+          match.score < options.minScore || !hasMatchingNames(listen, match)
+        ) {
+          console.warn(
+            `Uncertain match (score ${match.score}):`,
+            formattedListen,
+            `=> "${match.title}" by ${match.artist}`,
+            `(https://musicbrainz.org/recording/${match.recording_mbid})`,
+          );
+          uncertainCount++;
+        } else {
+          applyRecordingMatch(listen, match);
+          mappedCount++;
+        }
+      }
+      if (options.preview) {
+        printer.print(listen);
+      } else {
+        await output.log(listen);
+      }
+    }
+    printer.end();
+    await output.close();
+    await mapper.close();
+    console.info(mappedCount, "listens mapped");
+    console.info(uncertainCount, "uncertain matches");
+    console.info(unknownCount, "listens without match");
+  })
+  // Export listens
+  .command("export <input:file> <output:file>")
+  .description(`
+    Export listens from a JSON input file into another file format.
+    The format is detected from the extension of the output file, unless it is
+    specified explicitly.
+
+    Formats:
+      csv           = CSV with the given columns (*.csv)
+      scrobbler-log = .scrobbler.log, AUDIOSCROBBLER/1.1 (*.log)
+      lastfm-csv    = CSV like a Last.fm scrobble export
+  `)
+  .type("export-format", new EnumType(exportFormats))
+  .option("--format <format:export-format>", "Format of the output file.", {
+    override: true,
+  })
+  .option(
+    "--columns <keys:string[]>",
+    "Listen properties which are exported into CSV files.",
+    { override: true, default: defaultExportColumns },
+  )
+  .example(
+    "Rockbox log",
+    `
+    Export the listens of 2024 into a .scrobbler.log file.
+    ${cmd("elbisaur export listens.jsonl scrobbler-2024.log")} ${
+      opt("-a 2024-01-01 -b 2025-01-01")
+    }`,
+  )
+  .action(async function (options, inputPath, outputPath) {
+    const format = options.format ?? detectExportFormat(outputPath);
+    if (!format) {
+      throw new ValidationError(
+        `Unknown format of "${outputPath}", please specify it with "--format"`,
+      );
+    }
+    const listenFilter = await getListenFilter(options.filter, options);
+    const exporter = createExporter(format, {
+      columns: options.columns,
+      client: `elbisaur ${this.getVersion()}`,
+    });
+    const output = new LineWriter();
+    await output.open(outputPath);
+    for (const line of exporter.header) {
+      await output.write(line);
+    }
+    let count = 0;
+    for await (const listen of readListensFile(inputPath, options)) {
+      if (listenFilter(listen)) {
+        await output.write(exporter.format(listen));
+        count++;
+      }
+    }
+    await output.close();
+    console.info(count, "listens exported");
   })
   // Generate shell completions
   .command("completions", new CompletionsCommand());
@@ -480,12 +1554,136 @@ if (!isCompiled) {
   );
 }
 
-function makeValidIndexTypes(input: unknown): Array<string | number> {
-  if (typeof input === "string" || typeof input === "number") return [input];
-  if (typeof input === "boolean" || input === null) return [String(input)];
-  if (input === undefined) return [""];
-  if (Array.isArray(input)) return input.flatMap(makeValidIndexTypes);
-  return [];
+/** Ensures that the batch size is within the limits of the ListenBrainz API. */
+function checkBatchSize(size: number) {
+  if (size < 1 || size > maxBatchSize) {
+    throw new ValidationError(
+      `Batch size has to be between 1 and ${maxBatchSize}, got ${size}`,
+    );
+  }
+}
+
+/** Creates a ListenBrainz client which respects the rate limit of the API. */
+function createClient(userToken: string): ListenBrainzClient {
+  return new ListenBrainzClient({ userToken, fetch: rateLimitedFetch });
+}
+
+/**
+ * Creates a checkpoint to resume a batch operation on the given input file.
+ * Listens from stdin can only be resumed with an explicit checkpoint path.
+ *
+ * The checkpoint is only valid as long as the input file has not been modified.
+ */
+async function createCheckpoint(command: string, path: string, options: {
+  checkpoint?: string;
+  after?: string;
+  before?: string;
+  filter?: string;
+  excludeList?: string;
+  includeList?: string;
+}): Promise<Checkpoint | undefined> {
+  if (isStdio(path) && !options.checkpoint) return;
+  const { after, before, filter, excludeList, includeList } = options;
+  const { mtime, size } = isStdio(path) ? {} : await Deno.stat(path);
+  return new Checkpoint(options.checkpoint ?? path + ".checkpoint.json", {
+    command,
+    path,
+    modified: mtime?.getTime(),
+    size,
+    after,
+    before,
+    filter,
+    excludeList,
+    includeList,
+  });
+}
+
+/** Prints the given statistics as text. */
+function printStatistics(
+  statistics: ListenStatistics,
+  options: { duration?: boolean; dates?: boolean; limit?: number },
+) {
+  const { total, timeZone } = statistics;
+  const formatStats = (stats: ValueStatistics) => {
+    const columns: unknown[] = [stats.count];
+    if (options.duration) columns.push(formatDuration(stats.duration));
+    if (options.dates) {
+      columns.push(
+        formatDate(stats.first, timeZone),
+        formatDate(stats.last, timeZone),
+      );
+    }
+    return columns.join("\t");
+  };
+  console.log("Listens:", total.count);
+  if (options.duration) {
+    console.log("Listening time:", formatDuration(total.duration));
+    if (total.unknownDurationCount) {
+      console.log(
+        "Listens with unknown duration:",
+        total.unknownDurationCount,
+      );
+    }
+  }
+  if (options.dates && total.count) {
+    console.log("First listen:", formatDate(total.first, timeZone));
+    console.log("Last listen:", formatDate(total.last, timeZone));
+  }
+  // Print stats with values ordered by count in descending order,
+  // except for time periods which are ordered chronologically.
+  for (const group of statistics.groups) {
+    console.log(`\n${group.name}:`);
+    for (const stats of sortValues(group, options.limit)) {
+      const { value } = stats;
+      console.log(formatStats(stats), "\t", value !== "" ? value : undefined);
+    }
+  }
+}
+
+/** Creates a printer for listens, based on the format options. */
+function createListenPrinter(options: {
+  format?: OutputFormat;
+  columns?: string[];
+  listenTemplate?: string;
+  timezone?: string;
+  displayTimezone?: boolean;
+}): ListenPrinter {
+  return new ListenPrinter({
+    format: options.format,
+    columns: options.columns,
+    template: options.listenTemplate,
+    timeZone: options.displayTimezone ? options.timezone : undefined,
+  });
+}
+
+/** Prints a validation issue with the line or position of the affected listen. */
+function printValidationIssue(issue: ListenIssue) {
+  const location = [
+    issue.entry,
+    issue.line !== undefined
+      ? `line ${issue.line}`
+      : `listen #${issue.position}`,
+  ].filter(Boolean).join(", ");
+  const output = issue.severity === "error" ? console.error : console.warn;
+  output(`${location}: ${issue.severity}: ${issue.message}`);
+}
+
+/** Checks whether the given source refers to the history of a user. */
+function isHistoryReference(source: string): boolean {
+  return source.startsWith(historyPrefix);
+}
+
+/** Returns the given username or the name of the user the token belongs to. */
+async function getUsername(
+  client: ListenBrainzClient,
+  user?: string,
+): Promise<string> {
+  if (user) return user;
+  const username = await client.validateToken();
+  if (!username) {
+    throw new ValidationError("Specified token is invalid");
+  }
+  return username;
 }
 
 if (import.meta.main) {
@@ -0,0 +1,113 @@
+import type { Listen } from "@kellnerd/listenbrainz/listen";
+import { getTrackKey } from "./duplicates.ts";
+
+/** Differences between two collections of listens. */
+export interface ListenDiff<T extends Listen> {
+  /** Listens which only exist in the first collection. */
+  onlyA: T[];
+  /** Listens which only exist in the second collection. */
+  onlyB: T[];
+  /** Pairs of listens which have been matched, but have different metadata. */
+  changed: Array<{ a: T; b: T }>;
+  /** Number of listens which exist in both collections without changes. */
+  unchangedCount: number;
+}
+
+/**
+ * Compares two collections of listens.
+ *
+ * Listens are matched if they have the same timestamp. Listens of the same
+ * track (by artist and title) are preferred, remaining listens with the same
+ * timestamp are matched with each other and considered to be changed.
+ * All results are sorted chronologically.
+ */
+export function diffListens<T extends Listen>(
+  listensA: Iterable<T>,
+  listensB: Iterable<T>,
+): ListenDiff<T> {
+  const candidates = new Map<number, T[]>();
+  for (const listen of listensB) {
+    const listens = candidates.get(listen.listened_at);
+    if (listens) {
+      listens.push(listen);
+    } else {
+      candidates.set(listen.listened_at, [listen]);
+    }
+  }
+
+  const result: ListenDiff<T> = {
+    onlyA: [],
+    onlyB: [],
+    changed: [],
+    unchangedCount: 0,
+  };
+  const addPair = (a: T, b: T) => {
+    if (getMetadataKey(a) === getMetadataKey(b)) {
+      result.unchangedCount++;
+    } else {
+      result.changed.push({ a, b });
+    }
+  };
+
+  // First pass: match listens of the same track.
+  const unmatched: T[] = [];
+  for (const listen of listensA) {
+    const listens = candidates.get(listen.listened_at) ?? [];
+    const trackKey = getTrackKey(listen);
+    const index = listens.findIndex((other) => getTrackKey(other) === trackKey);
+    if (index >= 0) {
+      addPair(listen, listens.splice(index, 1)[0]);
+    } else {
+      unmatched.push(listen);
+    }
+  }
+
+  // Second pass: match remaining listens with the same timestamp.
+  for (const listen of unmatched) {
+    const other = candidates.get(listen.listened_at)?.shift();
+    if (other) {
+      addPair(listen, other);
+    } else {
+      result.onlyA.push(listen);
+    }
+  }
+  result.onlyB = [...candidates.values()].flat();
+
+  result.onlyA.sort(compareListens);
+  result.onlyB.sort(compareListens);
+  result.changed.sort((x, y) => compareListens(x.a, y.a));
+  return result;
+}
+
+/**
+ * Returns a key which represents the track metadata of the given listen.
+ *
+ * Properties which are added by the ListenBrainz server (MSID and the MBID
+ * mapping) are ignored.
+ */
+function getMetadataKey(listen: Listen): string {
+  const { additional_info, ...track } = listen.track_metadata as
+    & Listen["track_metadata"]
+    & { mbid_mapping?: unknown };
+  const { recording_msid: _msid, ...info } = additional_info ?? {};
+  const { mbid_mapping: _mapping, ...userTrack } = track;
+  return stringifySorted({ ...userTrack, additional_info: info });
+}
+
+/** Stringifies the given value as JSON, with object keys in sorted order. */
+function stringifySorted(value: unknown): string {
+  return JSON.stringify(value, (_key, value) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([_key, value]) => value !== undefined && value !== null)
+        .sort(([a], [b]) => a.localeCompare(b)),
+    );
+  });
+}
+
+function compareListens(a: Listen, b: Listen): number {
+  return a.listened_at - b.listened_at;
+}
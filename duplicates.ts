@@ -0,0 +1,228 @@
+import type {
+  AdditionalTrackInfo,
+  InsertedListen,
+  Listen,
+} from "@kellnerd/listenbrainz/listen";
+import { normalizeName } from "./utils.ts";
+
+/** Properties which are used to identify the track of two duplicate listens. */
+export type DuplicateIdentity = "track" | "msid";
+
+/** Supported values of {@linkcode DuplicateIdentity}. */
+export const duplicateIdentities: DuplicateIdentity[] = ["track", "msid"];
+
+/** Options to detect duplicate listens. */
+export interface DuplicateOptions {
+  /** Properties which identify the track, defaults to artist and title. */
+  identity?: DuplicateIdentity;
+  /** Maximum time difference (in seconds) between duplicates, defaults to 0. */
+  tolerance?: number;
+}
+
+/** Group of duplicate listens. */
+export interface DuplicateGroup<T extends Listen> {
+  /** Listen with the richest metadata which should be kept. */
+  kept: T;
+  /** Listens which are duplicates of the kept listen. */
+  dropped: T[];
+}
+
+/** Track metadata properties which are MBIDs. */
+const mbidKeys: Array<keyof AdditionalTrackInfo> = [
+  "recording_mbid",
+  "release_mbid",
+  "release_group_mbid",
+  "artist_mbids",
+  "track_mbid",
+  "work_mbids",
+];
+
+/**
+ * Groups the given listens by their identity, each listen belongs to exactly
+ * one group.
+ *
+ * Listens are considered to be duplicates if they have the same identity and
+ * their timestamps are within the tolerance of the first listen of the group.
+ * Groups are returned in chronological order.
+ */
+export function groupDuplicates<T extends Listen>(
+  listens: T[],
+  options: DuplicateOptions = {},
+): DuplicateGroup<T>[] {
+  const grouper = new DuplicateGrouper<T>(options);
+  const sortedListens = listens.toSorted((a, b) =>
+    a.listened_at - b.listened_at
+  );
+  return [
+    ...sortedListens.flatMap((listen) => grouper.add(listen)),
+    ...grouper.flush(),
+  ];
+}
+
+/**
+ * Groups the given chronologically sorted listens by their identity, like
+ * {@linkcode groupDuplicates}, but without loading all listens into memory.
+ *
+ * Each group is emitted once no later listen can be a duplicate of it anymore.
+ * Throws if the listens are not sorted.
+ */
+export async function* groupSortedDuplicates<T extends Listen>(
+  listens: AsyncIterable<T>,
+  options: DuplicateOptions = {},
+): AsyncGenerator<DuplicateGroup<T>> {
+  const grouper = new DuplicateGrouper<T>(options);
+  let previous = -Infinity;
+
+  for await (const listen of listens) {
+    if (listen.listened_at < previous) {
+      throw new Error("Listens are not sorted chronologically");
+    }
+    previous = listen.listened_at;
+    yield* grouper.add(listen);
+  }
+
+  yield* grouper.flush();
+}
+
+/** Group of duplicates which may still receive further listens. */
+interface OpenGroup<T extends Listen> extends DuplicateGroup<T> {
+  /** Timestamp of the first listen of the group. */
+  start: number;
+  /** Identity of the listens, undefined if they have none. */
+  key?: string;
+}
+
+/**
+ * Groups chronologically sorted listens by their identity.
+ *
+ * Groups are completed once a listen is added which is outside of their
+ * tolerance window, only groups within the window are kept in memory.
+ */
+class DuplicateGrouper<T extends Listen> {
+  #identity: DuplicateIdentity;
+  #tolerance: number;
+  /** Groups in chronological order which have not been completed yet. */
+  #pendingGroups: OpenGroup<T>[] = [];
+  /** Pending groups by their identity. */
+  #openGroups = new Map<string, OpenGroup<T>>();
+
+  constructor(options: DuplicateOptions) {
+    this.#identity = options.identity ?? "track";
+    this.#tolerance = options.tolerance ?? 0;
+  }
+
+  /** Adds the next listen and returns the groups which have been completed. */
+  add(listen: T): DuplicateGroup<T>[] {
+    const completedGroups: DuplicateGroup<T>[] = [];
+    while (
+      this.#pendingGroups.length &&
+      listen.listened_at - this.#pendingGroups[0].start > this.#tolerance
+    ) {
+      completedGroups.push(this.#complete(this.#pendingGroups.shift()!));
+    }
+
+    const key = this.#identity === "msid"
+      ? getMsid(listen)
+      : getTrackKey(listen);
+    const openGroup = key !== undefined ? this.#openGroups.get(key) : undefined;
+
+    if (openGroup) {
+      if (getRichness(listen) > getRichness(openGroup.kept)) {
+        openGroup.dropped.push(openGroup.kept);
+        openGroup.kept = listen;
+      } else {
+        openGroup.dropped.push(listen);
+      }
+    } else {
+      const group = {
+        kept: listen,
+        dropped: [],
+        start: listen.listened_at,
+        key,
+      };
+      this.#pendingGroups.push(group);
+      if (key !== undefined) {
+        this.#openGroups.set(key, group);
+      }
+    }
+    return completedGroups;
+  }
+
+  /** Completes and returns all remaining groups. */
+  flush(): DuplicateGroup<T>[] {
+    return this.#pendingGroups.splice(0).map((group) => this.#complete(group));
+  }
+
+  #complete(group: OpenGroup<T>): DuplicateGroup<T> {
+    if (group.key !== undefined) {
+      this.#openGroups.delete(group.key);
+    }
+    return { kept: group.kept, dropped: group.dropped };
+  }
+}
+
+/**
+ * Index of listens which can be used to check whether a listen is a duplicate
+ * of one of the indexed listens.
+ *
+ * Listens are considered to be duplicates if they have the same artist and
+ * track name and their timestamps are within the given tolerance.
+ */
+export class ListenIndex {
+  #timestamps = new Map<string, number[]>();
+  #tolerance: number;
+
+  /** Creates an empty index with the given tolerance (in seconds). */
+  constructor(tolerance = 0) {
+    this.#tolerance = tolerance;
+  }
+
+  /** Adds the given listen to the index. */
+  add(listen: Listen) {
+    const key = getTrackKey(listen);
+    const timestamps = this.#timestamps.get(key);
+    if (timestamps) {
+      timestamps.push(listen.listened_at);
+    } else {
+      this.#timestamps.set(key, [listen.listened_at]);
+    }
+  }
+
+  /** Checks whether the index contains a duplicate of the given listen. */
+  has(listen: Listen): boolean {
+    const timestamps = this.#timestamps.get(getTrackKey(listen));
+    return timestamps?.some((timestamp) =>
+      Math.abs(timestamp - listen.listened_at) <= this.#tolerance
+    ) ?? false;
+  }
+}
+
+/** Returns a key which identifies the track by its normalized artist and title. */
+export function getTrackKey(listen: Listen): string {
+  const { artist_name, track_name } = listen.track_metadata;
+  return [artist_name, track_name].map(normalizeName).join("\0");
+}
+
+/** Returns the MSID of the given listen, if it has been submitted before. */
+function getMsid(listen: Listen): string | undefined {
+  return (listen as Partial<InsertedListen>).recording_msid ??
+    listen.track_metadata.additional_info?.recording_msid;
+}
+
+/**
+ * Rates the richness of the metadata of the given listen.
+ *
+ * Every available MBID property outweighs all other additional info.
+ */
+export function getRichness(listen: Listen): number {
+  const track = listen.track_metadata;
+  const info = track.additional_info ?? {};
+  const mbidCount = mbidKeys.filter((key) => {
+    const value = info[key];
+    return Array.isArray(value) ? value.length : value;
+  }).length;
+  const infoCount = Object.values(info)
+    .filter((value) => value !== undefined && value !== null).length;
+
+  return mbidCount * 1000 + infoCount + (track.release_name ? 1 : 0);
+}
@@ -0,0 +1,118 @@
+import type { Listen } from "@kellnerd/listenbrainz/listen";
+import { extname } from "@std/path/extname";
+import { formatLastFmDate, lastFmColumns } from "./lastfm.ts";
+import { formatCsvLine, getListenValue } from "./output.ts";
+import { getListenDuration } from "./statistics.ts";
+
+/** File formats into which listens can be exported. */
+export type ExportFormat = "csv" | "scrobbler-log" | "lastfm-csv";
+
+/** Supported values of {@linkcode ExportFormat}. */
+export const exportFormats: ExportFormat[] = [
+  "csv",
+  "scrobbler-log",
+  "lastfm-csv",
+];
+
+/** Columns which are exported into CSV files by default. */
+export const defaultExportColumns = [
+  "listened_at",
+  "artist_name",
+  "track_name",
+  "release_name",
+  "recording_mbid",
+  "release_mbid",
+  "artist_mbids",
+  "duration_ms",
+];
+
+/** Converts listens into lines of a text file format. */
+export interface ListenExporter {
+  /** Lines which have to be written before the first listen. */
+  header: string[];
+  /** Formats a listen as line. */
+  format(listen: Listen): string;
+}
+
+/** Detects the export format from the extension of the given path. */
+export function detectExportFormat(path: string): ExportFormat | undefined {
+  switch (extname(path)) {
+    case ".csv":
+      return "csv";
+    case ".log":
+      return "scrobbler-log";
+  }
+}
+
+/** Creates an exporter for the given format. */
+export function createExporter(format: ExportFormat, options: {
+  /** Columns of the CSV format. */
+  columns?: string[];
+  /** Name and version of the client which creates a `.scrobbler.log` file. */
+  client?: string;
+} = {}): ListenExporter {
+  switch (format) {
+    case "csv": {
+      const { columns = defaultExportColumns } = options;
+      return {
+        header: [formatCsvLine(columns)],
+        format: (listen) =>
+          formatCsvLine(
+            columns.map((column) => getListenValue(listen, column)),
+          ),
+      };
+    }
+    case "scrobbler-log":
+      return {
+        header: [
+          "#AUDIOSCROBBLER/1.1",
+          "#TZ/UTC",
+          `#CLIENT/${options.client ?? "elbisaur"}`,
+        ],
+        format: formatScrobblerLogLine,
+      };
+    case "lastfm-csv":
+      return {
+        header: [formatCsvLine(lastFmColumns)],
+        format: formatLastFmLine,
+      };
+  }
+}
+
+/**
+ * Formats a listen as line of a `.scrobbler.log` file.
+ *
+ * Listens which are marked as skipped get an `S` rating, all others an `L`.
+ * Timestamps are written in UTC.
+ */
+function formatScrobblerLogLine(listen: Listen): string {
+  const track = listen.track_metadata;
+  const info = track.additional_info ?? {};
+  const duration = getListenDuration(listen);
+  return [
+    track.artist_name,
+    track.release_name,
+    track.track_name,
+    info.tracknumber,
+    duration !== undefined ? Math.round(duration / 1000) : undefined,
+    info.skipped ? "S" : "L",
+    listen.listened_at,
+    info.recording_mbid,
+  ].map((value) => String(value ?? "").replace(/\s/g, " ")).join("\t");
+}
+
+/** Formats a listen as line of a Last.fm scrobble export (CSV). */
+function formatLastFmLine(listen: Listen): string {
+  const track = listen.track_metadata;
+  const info = track.additional_info ?? {};
+  return formatCsvLine([
+    listen.listened_at,
+    formatLastFmDate(listen.listened_at),
+    track.artist_name,
+    info.artist_mbids?.[0],
+    track.release_name,
+    info.release_mbid,
+    track.track_name,
+    info.recording_mbid,
+  ]);
+}
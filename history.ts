@@ -0,0 +1,94 @@
+import type { ListenBrainzClient } from "@kellnerd/listenbrainz";
+import type { InsertedListen } from "@kellnerd/listenbrainz/listen";
+import { ListenIndex } from "./duplicates.ts";
+import type { TimeRange } from "./utils.ts";
+
+/** Options to select the part of a listening history which should be fetched. */
+export interface HistoryOptions {
+  /** Only fetch listens which are newer than this timestamp. */
+  minTs?: number;
+  /** Only fetch listens which are older than this timestamp. */
+  maxTs?: number;
+  /** Number of listens per page (API). */
+  count?: number;
+}
+
+/**
+ * Fetches the listening history of the given user page by page.
+ *
+ * Walks backwards in time, starting with the most recent listens (before the
+ * maximum timestamp), until the minimum timestamp has been reached or no more
+ * listens are returned by the API.
+ */
+export async function* getHistoryPages(
+  client: ListenBrainzClient,
+  user: string,
+  options: HistoryOptions = {},
+): AsyncGenerator<InsertedListen[]> {
+  const { minTs = 0, count } = options;
+  let maxTs = options.maxTs;
+  // Listens at the page boundary which have already been yielded.
+  let boundaryTs: number | undefined;
+  let boundaryMsids = new Set<string>();
+
+  while (true) {
+    // Only the maximum timestamp is passed to the API, because the listens are
+    // returned in ascending order if only a minimum timestamp is specified.
+    const { listens } = await client.getListens(user, {
+      max_ts: maxTs,
+      count,
+    });
+    if (!listens.length) return;
+
+    const page = listens.filter((listen) =>
+      listen.listened_at > minTs &&
+      !(listen.listened_at === boundaryTs &&
+        boundaryMsids.has(listen.recording_msid))
+    );
+    const oldestTs = listens[listens.length - 1].listened_at;
+
+    if (page.length) {
+      yield page;
+      // Include the boundary timestamp in the next request, there might be
+      // more listens with the same timestamp which did not fit on this page.
+      const previousMsids = oldestTs === boundaryTs ? boundaryMsids : [];
+      boundaryMsids = new Set(previousMsids);
+      for (const listen of page) {
+        if (listen.listened_at === oldestTs) {
+          boundaryMsids.add(listen.recording_msid);
+        }
+      }
+      boundaryTs = oldestTs;
+      maxTs = oldestTs + 1;
+    } else {
+      // All listens have already been seen, continue before the boundary.
+      maxTs = oldestTs;
+    }
+
+    if (oldestTs <= minTs) return;
+  }
+}
+
+/**
+ * Fetches the listens of the given user within the given time range (extended
+ * by the tolerance) and adds them to a new index with the same tolerance.
+ */
+export async function indexHistory(
+  client: ListenBrainzClient,
+  user: string,
+  range: TimeRange,
+  tolerance = 0,
+): Promise<ListenIndex> {
+  const index = new ListenIndex(tolerance);
+  const pages = getHistoryPages(client, user, {
+    minTs: range.oldest - tolerance - 1,
+    maxTs: range.newest + tolerance + 1,
+    count: 1000,
+  });
+  for await (const listens of pages) {
+    for (const listen of listens) {
+      index.add(listen);
+    }
+  }
+  return index;
+}
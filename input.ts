@@ -0,0 +1,188 @@
+import { ValidationError } from "@cliffy/command";
+import { isLastFmJson } from "./lastfm.ts";
+import { isYouTubeHistory } from "./youtube.ts";
+
+/** Formats of input files which can be detected from their content. */
+export type InputFormat =
+  | "json"
+  | "jsonl"
+  | "scrobbler-log"
+  | "spotify"
+  | "lastfm-csv"
+  | "lastfm-json"
+  | "youtube";
+
+/** Input file whose format has been detected. */
+export interface InputFile {
+  /** Detected format of the content. */
+  format: InputFormat;
+  /** Content of the file, including the part which was used for detection. */
+  stream: ReadableStream<string>;
+  /** Parsed content of a JSON document, which was used for detection. */
+  data?: unknown;
+}
+
+/** Path which refers to stdin (for input) or stdout (for output). */
+export const stdioPath = "-";
+
+/** Checks whether the given path refers to stdin or stdout. */
+export function isStdio(path: string | URL): boolean {
+  return path === stdioPath;
+}
+
+/**
+ * Opens the file at the given path (or stdin) as stream of text.
+ * Gzip compressed content is decompressed transparently.
+ */
+export async function openTextInput(
+  path: string,
+): Promise<ReadableStream<string>> {
+  const input = isStdio(path)
+    ? Deno.stdin.readable
+    : (await Deno.open(path)).readable;
+  const [bytes, stream] = await peekStream(
+    input,
+    (chunks) => chunks.reduce((length, chunk) => length + chunk.length, 0) >= 2,
+  );
+  const [first] = bytes;
+  if (first?.[0] === 0x50 && first[1] === 0x4b) {
+    await stream.cancel();
+    throw new Error("ZIP archives are only supported for files with listens");
+  }
+  const isGzip = first?.[0] === 0x1f && first[1] === 0x8b;
+  return (isGzip ? stream.pipeThrough(new DecompressionStream("gzip")) : stream)
+    .pipeThrough(new TextDecoderStream());
+}
+
+/** Reads the complete content of the given text stream. */
+export async function readText(
+  stream: ReadableStream<string>,
+): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+/**
+ * Opens the file at the given path (or stdin) and detects its format from the
+ * content.
+ *
+ * JSON lines are detected from the first line, which has to be a complete JSON
+ * object that looks like a listen or has to be followed by more lines.
+ * Other JSON content has to be read (and parsed) completely to detect its
+ * format, the parsed content is returned as `data` to avoid parsing it again.
+ */
+export async function openInputFile(path: string): Promise<InputFile> {
+  const input = await openTextInput(path);
+  // Read until the first line is complete and the next line has started.
+  const [chunks, stream] = await peekStream(
+    input,
+    (chunks) => /\n\s*\S/.test(chunks.join("")),
+  );
+  const [firstLine, ...nextLines] = chunks.join("").trim().split("\n");
+  const firstObject = firstLine.startsWith("{")
+    ? tryParseJson(firstLine)
+    : undefined;
+
+  if (firstLine.startsWith("#AUDIOSCROBBLER")) {
+    return { format: "scrobbler-log", stream };
+  } else if (
+    firstObject !== undefined && (nextLines.length || isListen(firstObject))
+  ) {
+    return { format: "jsonl", stream };
+  } else if (firstLine.startsWith("{") || firstLine.startsWith("[")) {
+    const [content, jsonStream] = await peekStream(stream, () => false);
+    let data: unknown;
+    try {
+      data = JSON.parse(content.join(""));
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      throw new ValidationError(`Invalid JSON in "${path}": ${error.message}`);
+    }
+    return { format: detectJsonFormat(data), stream: jsonStream, data };
+  } else if (firstLine === "") {
+    // Treat empty input as JSON lines without listens.
+    return { format: "jsonl", stream };
+  } else {
+    return { format: "lastfm-csv", stream };
+  }
+}
+
+/** Detects the format of the given JSON data, defaults to listens. */
+export function detectJsonFormat(data: unknown): InputFormat {
+  if (isLastFmJson(data)) return "lastfm-json";
+  if (isYouTubeHistory(data)) return "youtube";
+  if (isSpotifyHistory(data)) return "spotify";
+  return "json";
+}
+
+/** Checks whether the given JSON data looks like a Spotify streaming history. */
+function isSpotifyHistory(data: unknown): boolean {
+  if (!Array.isArray(data)) return false;
+  const [first] = data;
+  return typeof first?.ts === "string" && "ms_played" in first;
+}
+
+/** Checks whether the given JSON data looks like a single listen. */
+function isListen(data: unknown): boolean {
+  return typeof data === "object" && data !== null &&
+    ("listened_at" in data || "track_metadata" in data);
+}
+
+/** Parses the given JSON text, returns `undefined` if it is invalid. */
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    return undefined;
+  }
+}
+
+/**
+ * Reads chunks from the given stream until the callback returns `true` or the
+ * stream ends.
+ *
+ * Returns the chunks which have been read and a stream which starts with these
+ * chunks, followed by the remaining content of the original stream.
+ */
+async function peekStream<T>(
+  input: ReadableStream<T>,
+  isEnough: (chunks: T[]) => boolean,
+): Promise<[T[], ReadableStream<T>]> {
+  const reader = input.getReader();
+  const chunks: T[] = [];
+  let isDone = false;
+  while (!isEnough(chunks)) {
+    const result = await reader.read();
+    if (result.done) {
+      isDone = true;
+      break;
+    }
+    chunks.push(result.value);
+  }
+
+  const buffer = [...chunks];
+  const stream = new ReadableStream<T>({
+    async pull(controller) {
+      if (buffer.length) {
+        controller.enqueue(buffer.shift()!);
+      } else if (isDone) {
+        controller.close();
+      } else {
+        const result = await reader.read();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return [chunks, stream];
+}
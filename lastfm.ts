@@ -0,0 +1,215 @@
+import type {
+  AdditionalTrackInfo,
+  Listen,
+} from "@kellnerd/listenbrainz/listen";
+import { parse as parseCsv } from "@std/csv/parse";
+
+/** Options for the Last.fm parsers. */
+export interface LastFmParserOptions {
+  /** Callback which is called for each item which can not be parsed. */
+  onInvalidItem?: (item: unknown, index: number, reason: string) => void;
+}
+
+/** Scrobble as returned by the Last.fm API and stored by backup tools. */
+export interface LastFmTrack {
+  artist: { "#text"?: string; name?: string; mbid?: string };
+  album?: { "#text"?: string; mbid?: string };
+  name: string;
+  mbid?: string;
+  date?: { uts: string; "#text"?: string };
+  "@attr"?: { nowplaying?: string };
+}
+
+/**
+ * Parses scrobbles from a Last.fm export in CSV format.
+ *
+ * Supports files with the header {@linkcode lastFmColumns} (as written by the
+ * `lastfm-csv` export format) and files without header which have the
+ * columns `artist,album,track,date` (date formatted like `31 Jan 2024 12:34`).
+ */
+export function* parseLastFmCsv(
+  input: string,
+  options: LastFmParserOptions = {},
+): Generator<Listen> {
+  const rows = parseCsv(input);
+  const hasHeader = rows[0]?.[0] === lastFmColumns[0];
+
+  for (let index = hasHeader ? 1 : 0; index < rows.length; index++) {
+    const row = rows[index];
+    let listen: Listen | undefined;
+    if (hasHeader) {
+      const [uts, _time, artist, artistMbid, album, albumMbid, track, mbid] =
+        row;
+      listen = createListen(Number(uts), artist, track, album, {
+        artistMbid,
+        releaseMbid: albumMbid,
+        recordingMbid: mbid,
+      });
+    } else if (row.length === 4) {
+      const [artist, album, track, date] = row;
+      listen = createListen(parseLastFmDate(date), artist, track, album);
+    }
+
+    const reason = validateListen(listen);
+    if (reason) {
+      options.onInvalidItem?.(row, index, reason);
+    } else {
+      yield listen!;
+    }
+  }
+}
+
+/**
+ * Parses scrobbles from a Last.fm export in JSON format.
+ *
+ * Accepts (nested) arrays of tracks in the format of the Last.fm API (as they
+ * are stored by common backup tools) and `user.getRecentTracks` responses.
+ * Tracks which are currently playing (and have no date) are skipped.
+ * The input can be JSON text or data which has already been parsed.
+ */
+export function* parseLastFmJson(
+  input: unknown,
+  options: LastFmParserOptions = {},
+): Generator<Listen> {
+  const tracks = getLastFmTracks(
+    typeof input === "string" ? JSON.parse(input) : input,
+  );
+
+  for (const [index, track] of tracks.entries()) {
+    if (track["@attr"]?.nowplaying) {
+      options.onInvalidItem?.(track, index, "Track is currently playing");
+      continue;
+    }
+    const listen = createListen(
+      Number(track.date?.uts),
+      track.artist?.["#text"] ?? track.artist?.name,
+      track.name,
+      track.album?.["#text"],
+      {
+        artistMbid: track.artist?.mbid,
+        releaseMbid: track.album?.mbid,
+        recordingMbid: track.mbid,
+      },
+    );
+
+    const reason = validateListen(listen);
+    if (reason) {
+      options.onInvalidItem?.(track, index, reason);
+    } else {
+      yield listen;
+    }
+  }
+}
+
+/** Checks whether the given JSON data looks like a Last.fm export. */
+export function isLastFmJson(data: unknown): boolean {
+  const [first] = getLastFmTracks(data);
+  return typeof first?.artist === "object" && first.artist !== null &&
+    "name" in first;
+}
+
+/** Columns of a Last.fm scrobble export (as CSV). */
+export const lastFmColumns = [
+  "uts",
+  "utc_time",
+  "artist",
+  "artist_mbid",
+  "album",
+  "album_mbid",
+  "track",
+  "track_mbid",
+];
+
+/** Formats a timestamp like Last.fm, e.g. `31 Jan 2024, 12:34` (UTC). */
+export function formatLastFmDate(timestamp: number): string {
+  const date = new Date(timestamp * 1000);
+  const time = [date.getUTCHours(), date.getUTCMinutes()]
+    .map((value) => String(value).padStart(2, "0")).join(":");
+  return `${date.getUTCDate()} ${
+    monthNames[date.getUTCMonth()]
+  } ${date.getUTCFullYear()}, ${time}`;
+}
+
+/** Parses a Last.fm date like `31 Jan 2024 12:34` (UTC) into a timestamp. */
+export function parseLastFmDate(date: string): number {
+  const match = date.match(
+    /^(\d{1,2}) (\w{3}) (\d{4}),? (\d{1,2}):(\d{2})$/,
+  );
+  if (!match) return NaN;
+  const [_, day, month, year, hours, minutes] = match;
+  const monthIndex = monthNames.indexOf(month);
+  if (monthIndex < 0) return NaN;
+  return Date.UTC(
+    Number(year),
+    monthIndex,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+  ) / 1000;
+}
+
+const monthNames = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Extracts the tracks from (nested) arrays or API responses. */
+function getLastFmTracks(data: unknown): LastFmTrack[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(getLastFmTracks);
+  } else if (typeof data === "object" && data !== null) {
+    if ("recenttracks" in data) {
+      const { recenttracks } = data as { recenttracks: { track: unknown } };
+      return getLastFmTracks(recenttracks.track);
+    }
+    return [data as LastFmTrack];
+  }
+  return [];
+}
+
+function createListen(
+  timestamp: number,
+  artist: string | undefined,
+  track: string | undefined,
+  album: string | undefined,
+  mbids: {
+    artistMbid?: string;
+    releaseMbid?: string;
+    recordingMbid?: string;
+  } = {},
+): Listen {
+  const info: AdditionalTrackInfo = {};
+  if (mbids.artistMbid) info.artist_mbids = [mbids.artistMbid];
+  if (mbids.releaseMbid) info.release_mbid = mbids.releaseMbid;
+  if (mbids.recordingMbid) info.recording_mbid = mbids.recordingMbid;
+
+  return {
+    listened_at: timestamp,
+    track_metadata: {
+      artist_name: artist ?? "",
+      track_name: track ?? "",
+      release_name: album || undefined,
+      additional_info: info,
+    },
+  };
+}
+
+function validateListen(listen: Listen | undefined): string | undefined {
+  if (!listen) return "Unsupported number of columns";
+  if (!Number.isInteger(listen.listened_at) || listen.listened_at <= 0) {
+    return "Invalid timestamp";
+  }
+  const { artist_name, track_name } = listen.track_metadata;
+  if (!artist_name) return "Missing artist name";
+  if (!track_name) return "Missing track name";
+}
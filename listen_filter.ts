@@ -4,56 +4,139 @@ import type {
   Listen,
   Track,
 } from "@kellnerd/listenbrainz/listen";
-import { timestamp } from "@kellnerd/listenbrainz/timestamp";
 import { parse as parseYaml } from "@std/yaml";
+import { isValidTimeZone, parseTimestamp } from "./timezone.ts";
+import { normalizeName } from "./utils.ts";
+
+/** Operators which can be used in filter conditions. */
+export type FilterOperator = typeof filterOperators[number];
+
+/**
+ * Supported filter operators.
+ *
+ * Longer operators have to precede operators which are a prefix of them.
+ */
+export const filterOperators = [
+  "==",
+  "!=",
+  "<=",
+  "<",
+  ">=",
+  ">",
+  "~~",
+  "~=",
+  "=~",
+  "^=",
+  "$=",
+  "^",
+] as const;
+
+/** Operators which compare the property as text. */
+const textOperators: FilterOperator[] = ["~~", "~=", "=~", "^=", "$="];
+
+/** Quantifiers which specify how many values of a property have to match. */
+export type FilterQuantifier = "any" | "all" | "none";
+
+/** Condition which compares a track metadata property with a value. */
+export interface FilterCondition {
+  type: "condition";
+  key: string;
+  operator: FilterOperator;
+  value: string | string[];
+  /** Specifies which values of a multi-valued property have to match. */
+  quantifier?: FilterQuantifier;
+  /** Compare the number of values of the property instead of the values. */
+  count?: boolean;
+}
+
+/** Parsed filter expression, a tree of conditions and logical operators. */
+export type FilterExpression =
+  | FilterCondition
+  | { type: "not"; operand: FilterExpression }
+  | { type: "and" | "or"; operands: FilterExpression[] };
 
 export async function getListenFilter(filterSpecification?: string, options: {
   after?: string;
   before?: string;
   excludeList?: string;
   includeList?: string;
+  timezone?: string;
 } = {}) {
-  const conditions = filterSpecification?.split("&&").map((expression) => {
-    const condition = expression.match(
-      /^(?<key>\w+)(?<operator>==|!=|<=|<|>=|>|\^)(?<value>.*)/,
-    )?.groups;
-    if (!condition) {
-      throw new ValidationError(`Invalid filter expression "${expression}"`);
-    }
-    return condition as {
-      key: string;
-      operator: "==" | "!=" | "<=" | "<" | ">=" | ">" | "^";
-      value: string | string[];
-    };
-  }) ?? [];
+  const expressions: FilterExpression[] = [];
+  if (filterSpecification !== undefined) {
+    expressions.push(parseFilterExpression(filterSpecification));
+  }
+
+  if (options.timezone && !isValidTimeZone(options.timezone)) {
+    throw new ValidationError(`Invalid time zone "${options.timezone}"`);
+  }
 
-  const minTs = options.after ? timestamp(options.after) : 0;
+  const minTs = options.after
+    ? parseTimestamp(options.after, options.timezone)
+    : 0;
   if (isNaN(minTs)) {
     throw new ValidationError(`Invalid date "${options.after}"`);
   }
 
-  const maxTs = options.before ? timestamp(options.before) : Infinity;
+  const maxTs = options.before
+    ? parseTimestamp(options.before, options.timezone)
+    : Infinity;
   if (isNaN(maxTs)) {
     throw new ValidationError(`Invalid date "${options.before}"`);
   }
 
   if (options.excludeList) {
-    await loadConditionsFromYaml(options.excludeList, "!=");
+    await loadConditionsFromYaml(options.excludeList, true);
   }
 
   if (options.includeList) {
-    await loadConditionsFromYaml(options.includeList, "==");
+    await loadConditionsFromYaml(options.includeList, false);
   }
 
-  async function loadConditionsFromYaml(path: string, operator: "==" | "!=") {
+  /**
+   * Loads conditions from a YAML file which maps keys to lists of values.
+   *
+   * Keys may be followed by an operator, which defaults to `==`.
+   * A listen matches if the condition is fulfilled for any of the values.
+   */
+  async function loadConditionsFromYaml(path: string, exclude: boolean) {
     const content = await Deno.readTextFile(path);
-    const excludeMap = parseYaml(content) as Record<string, unknown>;
-    for (const [key, values] of Object.entries(excludeMap)) {
-      if (Array.isArray(values)) {
-        conditions.push({ key, operator, value: values });
-      } else {
-        throw new ValidationError(`"${key}" from "${path}" has to be a list`);
+    const conditionMap = parseYaml(content) as Record<string, unknown>;
+    for (const [keySpec, values] of Object.entries(conditionMap)) {
+      const match = keySpec.match(yamlKeyPattern);
+      if (!match) {
+        throw new ValidationError(`Invalid key "${keySpec}" in "${path}"`);
+      }
+      if (!Array.isArray(values)) {
+        throw new ValidationError(
+          `"${keySpec}" from "${path}" has to be a list`,
+        );
+      }
+      const [_, count, key, quantifier, operator = "=="] = match;
+      const value = values.map(String);
+      if (operator === "=~") {
+        for (const pattern of value) {
+          try {
+            parseRegExp(pattern);
+          } catch (error) {
+            if (!(error instanceof SyntaxError)) throw error;
+            throw new ValidationError(
+              `Invalid pattern for "${keySpec}" in "${path}": ${error.message}`,
+            );
+          }
+        }
       }
+      const condition: FilterCondition = {
+        type: "condition",
+        key,
+        operator: operator as FilterOperator,
+        value,
+        quantifier: quantifier as FilterQuantifier | undefined,
+        count: Boolean(count),
+      };
+      expressions.push(
+        exclude ? { type: "not", operand: condition } : condition,
+      );
     }
   }
 
@@ -61,47 +144,349 @@ export async function getListenFilter(filterSpecification?: string, options: {
     if (listen.listened_at <= minTs || listen.listened_at >= maxTs) {
       return false;
     }
-    const track = listen.track_metadata;
-    const info = track.additional_info ?? {};
-
-    return conditions.every(({ key, operator, value }) => {
-      const actualValue = track[key as keyof Track] ??
-        info[key as keyof AdditionalTrackInfo];
-
-      if (Array.isArray(actualValue)) {
-        console.warn(`Ignoring condition for "${key}" (has multiple values)`);
-        return true;
-      } else if (Array.isArray(value)) {
-        if (operator === "==") {
-          return value.some((value) => compare(actualValue, value) === 0);
-        } else if (operator === "!=") {
-          return value.every((value) => compare(actualValue, value) !== 0);
-        } else {
-          console.warn(
-            `Ignoring condition for "${key}" ("${operator}" does not accept multiple values)`,
-          );
-          return true;
+
+    return expressions.every((expression) =>
+      evaluateFilter(expression, listen)
+    );
+  };
+}
+
+/**
+ * Parses a filter expression which consists of conditions and logical operators.
+ *
+ * Conditions have the form `<key><operator><value>`, they can be negated with
+ * `!`, combined with `&&` (AND) and `||` (OR) and grouped by parentheses.
+ * AND has a higher precedence than OR.
+ *
+ * Keys of multi-valued properties can be followed by a quantifier (`[any]`,
+ * `[all]` or `[none]`), which defaults to `[any]`. Keys which are prefixed
+ * with `#` refer to the number of values of the property.
+ *
+ * Values can be enclosed in single or double quotes, which is necessary if
+ * they should contain leading or trailing whitespace or logical operators.
+ * Within quoted values, a backslash escapes the next character.
+ * Unquoted values end before the next logical operator or unmatched `)`.
+ */
+export function parseFilterExpression(input: string): FilterExpression {
+  let position = 0;
+  let depth = 0;
+
+  const expression = parseOr();
+  skipWhitespace();
+  if (position < input.length) {
+    fail(`Unexpected "${input[position]}"`);
+  }
+  return expression;
+
+  function parseOr(): FilterExpression {
+    const operands = [parseAnd()];
+    while (consume("||")) {
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  }
+
+  function parseAnd(): FilterExpression {
+    const operands = [parseUnary()];
+    while (consume("&&")) {
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  }
+
+  function parseUnary(): FilterExpression {
+    if (consume("!")) {
+      return { type: "not", operand: parseUnary() };
+    }
+    if (consume("(")) {
+      depth++;
+      const expression = parseOr();
+      if (!consume(")")) {
+        fail(`Expected ")" but found ${describeNext()}`);
+      }
+      depth--;
+      return expression;
+    }
+    return parseCondition();
+  }
+
+  function parseCondition(): FilterCondition {
+    skipWhitespace();
+    const keyMatch = input.slice(position).match(keyPattern);
+    if (!keyMatch) {
+      fail(`Expected key but found ${describeNext()}`);
+    }
+    const [keySpec, count, key, quantifier] = keyMatch;
+    position += keySpec.length;
+    skipWhitespace();
+    const operator = input.slice(position).match(operatorPattern)?.[0];
+    if (!operator) {
+      fail(`Expected operator after "${keySpec}" but found ${describeNext()}`);
+    }
+    position += operator.length;
+    skipWhitespace();
+    const valueStart = position;
+    const value = parseValue();
+    if (operator === "=~") {
+      try {
+        parseRegExp(value);
+      } catch (error) {
+        if (!(error instanceof SyntaxError)) throw error;
+        fail(`Invalid pattern: ${error.message}`, valueStart);
+      }
+    }
+    return {
+      type: "condition",
+      key,
+      operator: operator as FilterOperator,
+      value,
+      quantifier: quantifier as FilterQuantifier | undefined,
+      count: Boolean(count),
+    };
+  }
+
+  function parseValue(): string {
+    skipWhitespace();
+    const quote = input[position];
+    if (quote === '"' || quote === "'") {
+      const start = position++;
+      let value = "";
+      while (position < input.length && input[position] !== quote) {
+        if (input[position] === "\\" && position + 1 < input.length) {
+          position++;
         }
+        value += input[position++];
+      }
+      if (position >= input.length) {
+        fail("Unterminated quoted value", start);
       }
+      position++;
+      return value;
+    }
 
-      switch (operator) {
-        case "==":
-          return compare(actualValue, value) === 0;
-        case "!=":
-          return compare(actualValue, value) !== 0;
-        case "^": // XOR
-          return actualValue && !value || !actualValue && value;
-        case "<=":
-          return compare(actualValue, value) <= 0;
-        case "<":
-          return compare(actualValue, value) < 0;
-        case ">=":
-          return compare(actualValue, value) >= 0;
-        case ">":
-          return compare(actualValue, value) > 0;
+    const start = position;
+    let nesting = 0;
+    while (position < input.length) {
+      if (
+        input.startsWith("&&", position) || input.startsWith("||", position)
+      ) {
+        break;
       }
-    });
-  };
+      const char = input[position];
+      if (char === "(") {
+        nesting++;
+      } else if (char === ")") {
+        if (nesting) {
+          nesting--;
+        } else if (depth) {
+          break;
+        }
+      }
+      position++;
+    }
+    return input.slice(start, position).trim();
+  }
+
+  function skipWhitespace() {
+    while (/\s/.test(input[position])) {
+      position++;
+    }
+  }
+
+  function consume(token: string): boolean {
+    skipWhitespace();
+    if (input.startsWith(token, position)) {
+      position += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  function describeNext(): string {
+    return position < input.length ? `"${input[position]}"` : "end of input";
+  }
+
+  function fail(message: string, column = position): never {
+    throw new ValidationError(
+      `${message} at column ${column + 1} of filter expression:\n` +
+        `  ${input}\n  ${" ".repeat(column)}^`,
+    );
+  }
+}
+
+/** Matches a supported operator at the start of a string. */
+const operatorPattern = new RegExp(
+  `^(${filterOperators.map(escapeRegExp).join("|")})`,
+);
+
+/**
+ * Matches a key (with optional count prefix and quantifier) at the start of a
+ * string.
+ */
+const keyPattern = /^(#)?(\w+)(?:\[(any|all|none)\])?/;
+
+/** Matches a key of a YAML condition file, optionally followed by an operator. */
+const yamlKeyPattern = new RegExp(
+  keyPattern.source +
+    `\\s*(${filterOperators.map(escapeRegExp).join("|")})?$`,
+);
+
+/** Escapes all characters which have a special meaning in regular expressions. */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Cache of compiled regular expressions. */
+const regExpCache = new Map<string, RegExp>();
+
+/**
+ * Parses a regular expression, which is optionally enclosed in slashes and
+ * followed by flags (`/pattern/flags`).
+ *
+ * The stateful flags `g` and `y` are ignored, because the cached expression is
+ * tested against many values. Throws a `SyntaxError` for unknown flags.
+ */
+export function parseRegExp(pattern: string): RegExp {
+  let regExp = regExpCache.get(pattern);
+  if (!regExp) {
+    const literal = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+    if (literal) {
+      const [_, source, flags] = literal;
+      const unknownFlags = flags.replace(/[dgimsuvy]/g, "");
+      if (unknownFlags) {
+        throw new SyntaxError(`Unknown flags "${unknownFlags}"`);
+      }
+      regExp = new RegExp(source, flags.replace(/[gy]/g, ""));
+    } else {
+      regExp = new RegExp(pattern);
+    }
+    regExpCache.set(pattern, regExp);
+  }
+  return regExp;
+}
+
+/** Evaluates the given filter expression for a listen. */
+export function evaluateFilter(
+  expression: FilterExpression,
+  listen: Listen,
+): boolean {
+  switch (expression.type) {
+    case "and":
+      return expression.operands.every((operand) =>
+        evaluateFilter(operand, listen)
+      );
+    case "or":
+      return expression.operands.some((operand) =>
+        evaluateFilter(operand, listen)
+      );
+    case "not":
+      return !evaluateFilter(expression.operand, listen);
+    case "condition":
+      return testCondition(expression, listen);
+  }
+}
+
+/** Tests whether the track metadata of a listen fulfills the given condition. */
+function testCondition(
+  { key, operator, value, quantifier = "any", count }: FilterCondition,
+  listen: Listen,
+): boolean {
+  const track = listen.track_metadata;
+  const info = track.additional_info ?? {};
+  const actualValue = track[key as keyof Track] ??
+    info[key as keyof AdditionalTrackInfo];
+
+  if (count) {
+    return testValues(countValues(actualValue), operator, value, key);
+  } else if (Array.isArray(actualValue)) {
+    const test = (element: unknown) =>
+      testValues(element, operator, value, key);
+    switch (quantifier) {
+      case "any":
+        return actualValue.some(test);
+      case "all":
+        return actualValue.every(test);
+      case "none":
+        return !actualValue.some(test);
+    }
+  }
+
+  const result = testValues(actualValue, operator, value, key);
+  return quantifier === "none" ? !result : result;
+}
+
+/** Tests whether the actual value fulfills the condition for one or more values. */
+function testValues(
+  actualValue: unknown,
+  operator: FilterOperator,
+  value: string | string[],
+  key: string,
+): boolean {
+  if (Array.isArray(value)) {
+    if (operator === "==" || textOperators.includes(operator)) {
+      return value.some((value) => testValue(actualValue, operator, value));
+    } else if (operator === "!=") {
+      return value.every((value) => testValue(actualValue, operator, value));
+    } else {
+      console.warn(
+        `Ignoring condition for "${key}" ("${operator}" does not accept multiple values)`,
+      );
+      return true;
+    }
+  }
+
+  return testValue(actualValue, operator, value);
+}
+
+/**
+ * Counts the values of a property.
+ *
+ * Lists have as many values as elements, `null`, `undefined` and empty strings
+ * have no value and all other properties have a single value.
+ */
+function countValues(actualValue: unknown): number {
+  if (Array.isArray(actualValue)) return actualValue.length;
+  if (actualValue === undefined || actualValue === null) return 0;
+  return actualValue === "" ? 0 : 1;
+}
+
+/** Tests whether the actual value fulfills the condition for a single value. */
+function testValue(
+  actualValue: unknown,
+  operator: FilterOperator,
+  value: string,
+): boolean {
+  switch (operator) {
+    case "==":
+      return compare(actualValue, value) === 0;
+    case "!=":
+      return compare(actualValue, value) !== 0;
+    case "^": // XOR
+      return Boolean(actualValue) !== Boolean(value);
+    case "<=":
+      return compare(actualValue, value) <= 0;
+    case "<":
+      return compare(actualValue, value) < 0;
+    case ">=":
+      return compare(actualValue, value) >= 0;
+    case ">":
+      return compare(actualValue, value) > 0;
+    case "~~":
+      return normalizeName(toText(actualValue)) === normalizeName(value);
+    case "~=":
+      return toText(actualValue).includes(value);
+    case "=~":
+      return parseRegExp(value).test(toText(actualValue));
+    case "^=":
+      return toText(actualValue).startsWith(value);
+    case "$=":
+      return toText(actualValue).endsWith(value);
+  }
+}
+
+/** Converts a value into text, `null` and `undefined` become empty strings. */
+function toText(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
 }
 
 /**
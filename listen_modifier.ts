@@ -1,29 +1,222 @@
 import { ValidationError } from "@cliffy/command";
-import type { Listen } from "@kellnerd/listenbrainz/listen";
+import type { Listen, Track } from "@kellnerd/listenbrainz/listen";
+
+/** Operations which can be performed by an edit expression. */
+export type ListenEdit =
+  | { key: string; operator: "="; template: string }
+  | { key: string; operator: ":="; value: unknown }
+  | { key: string; operator: "~="; pattern: RegExp; replacement: string }
+  | { key: string; operator: "<=" | "<-"; source: string }
+  | { key: string; operator: "!" };
+
+/** Track metadata keys which are not stored inside the additional info. */
+const trackKeys = ["track_name", "artist_name", "release_name"] as const;
+
+/** Track metadata keys which must not be deleted. */
+const requiredKeys = ["track_name", "artist_name"];
 
 export function getListenModifier(expressions?: string[]) {
-  const edits = expressions?.map((expression) => {
-    const edit = expression.match(
-      /^(?<key>\w+)(?<operator>=)(?<value>.*)/,
-    )?.groups;
-    if (!edit) {
-      throw new ValidationError(`Invalid edit expression "${expression}"`);
-    }
-    return edit as { key: string; operator: "="; value: string };
-  });
+  const edits = expressions?.map(parseEditExpression);
 
   return function (listen: Listen) {
     if (!edits) return;
     const track = listen.track_metadata;
-    for (const { key, value } of edits) {
-      if (
-        key === "track_name" || key === "artist_name" || key === "release_name"
-      ) {
-        track[key] = value;
-      } else {
-        const info = track.additional_info ??= {};
-        info[key] = value;
-      }
+    for (const edit of edits) {
+      applyEdit(track, edit);
     }
   };
 }
+
+/**
+ * Parses an edit expression.
+ *
+ * Supported expressions:
+ * - `key=value`: Assigns the value as a string, `{other_key}` is replaced by
+ *   the value of another key and `{{` by a literal `{`.
+ * - `key:=json`: Assigns a typed value (number, boolean, array or null).
+ * - `key~=s/pattern/replacement/flags`: Replaces matches of the regular
+ *   expression, any character can be used as delimiter instead of `/`.
+ * - `key<=other_key`: Copies the value of another key.
+ * - `key<-other_key`: Moves the value of another key.
+ * - `!key`: Deletes the key.
+ */
+export function parseEditExpression(expression: string): ListenEdit {
+  const deletedKey = expression.match(/^!(\w+)$/)?.[1];
+  if (deletedKey) {
+    assertOptional(deletedKey, expression);
+    return { key: deletedKey, operator: "!" };
+  }
+
+  const edit = expression.match(
+    /^(?<key>\w+)(?<operator>:=|~=|<=|<-|=)(?<value>.*)/s,
+  )?.groups;
+  if (!edit) {
+    throw new ValidationError(`Invalid edit expression "${expression}"`);
+  }
+
+  const { key, value } = edit;
+  switch (edit.operator) {
+    case "=":
+      return { key, operator: "=", template: value };
+    case ":=": {
+      let typedValue: unknown;
+      try {
+        typedValue = JSON.parse(value);
+      } catch {
+        throw new ValidationError(
+          `Invalid JSON value in edit expression "${expression}"`,
+        );
+      }
+      if (isTrackKey(key) && typeof typedValue !== "string") {
+        throw new ValidationError(`Value of "${key}" has to be a string`);
+      }
+      return { key, operator: ":=", value: typedValue };
+    }
+    case "~=": {
+      const [pattern, replacement] = parseSubstitution(value, expression);
+      return { key, operator: "~=", pattern, replacement };
+    }
+    case "<=":
+    case "<-":
+      if (!/^\w+$/.test(value)) {
+        throw new ValidationError(
+          `Invalid source key in edit expression "${expression}"`,
+        );
+      }
+      if (edit.operator === "<-") {
+        assertOptional(value, expression);
+      }
+      return { key, operator: edit.operator, source: value };
+    default:
+      throw new ValidationError(`Invalid edit expression "${expression}"`);
+  }
+}
+
+/** Applies the given edit to the track metadata. */
+export function applyEdit(track: Track, edit: ListenEdit) {
+  switch (edit.operator) {
+    case "=":
+      setValue(track, edit.key, fillTemplate(edit.template, track));
+      break;
+    case ":=":
+      setValue(track, edit.key, structuredClone(edit.value));
+      break;
+    case "~=": {
+      const { pattern, replacement } = edit;
+      const replace = (value: unknown) =>
+        typeof value === "string" ? value.replace(pattern, replacement) : value;
+      const value = getValue(track, edit.key);
+      if (Array.isArray(value)) {
+        setValue(track, edit.key, value.map(replace));
+      } else if (typeof value === "string") {
+        setValue(track, edit.key, replace(value));
+      }
+      break;
+    }
+    case "<=":
+    case "<-": {
+      const value = getValue(track, edit.source);
+      if (value === undefined) break;
+      setValue(track, edit.key, structuredClone(value));
+      if (edit.operator === "<-" && edit.source !== edit.key) {
+        deleteValue(track, edit.source);
+      }
+      break;
+    }
+    case "!":
+      deleteValue(track, edit.key);
+      break;
+  }
+}
+
+/** Replaces `{key}` placeholders with the values of the track metadata. */
+function fillTemplate(template: string, track: Track): string {
+  return template.replace(/\{\{|\{(\w+)\}/g, (_placeholder, key?: string) => {
+    if (!key) return "{";
+    const value = getValue(track, key);
+    if (value === undefined || value === null) return "";
+    if (Array.isArray(value)) return value.join(", ");
+    return String(value);
+  });
+}
+
+/**
+ * Parses a substitution of the form `s/pattern/replacement/flags`.
+ * Escaped delimiters are treated as literal characters.
+ */
+function parseSubstitution(
+  substitution: string,
+  expression: string,
+): [RegExp, string] {
+  const delimiter = substitution[1];
+  if (substitution[0] !== "s" || !delimiter || /[\w\s\\]/.test(delimiter)) {
+    throw new ValidationError(
+      `Invalid substitution in edit expression "${expression}"`,
+    );
+  }
+
+  const parts = [""];
+  for (let i = 2; i < substitution.length; i++) {
+    const char = substitution[i];
+    if (char === "\\" && substitution[i + 1] === delimiter) {
+      parts[parts.length - 1] += delimiter;
+      i++;
+    } else if (char === delimiter) {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+  if (parts.length !== 3) {
+    throw new ValidationError(
+      `Invalid substitution in edit expression "${expression}"`,
+    );
+  }
+
+  const [pattern, replacement, flags] = parts;
+  try {
+    return [new RegExp(pattern, flags), replacement];
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    throw new ValidationError(
+      `Invalid pattern in edit expression "${expression}": ${error.message}`,
+    );
+  }
+}
+
+function assertOptional(key: string, expression: string) {
+  if (requiredKeys.includes(key)) {
+    throw new ValidationError(
+      `Required key "${key}" can not be removed by "${expression}"`,
+    );
+  }
+}
+
+function isTrackKey(key: string): key is typeof trackKeys[number] {
+  return (trackKeys as readonly string[]).includes(key);
+}
+
+function getValue(track: Track, key: string): unknown {
+  if (isTrackKey(key)) return track[key];
+  return track.additional_info?.[key];
+}
+
+function setValue(track: Track, key: string, value: unknown) {
+  if (isTrackKey(key)) {
+    if (typeof value !== "string") {
+      throw new ValidationError(`Value of "${key}" has to be a string`);
+    }
+    track[key] = value;
+  } else {
+    const info = track.additional_info ??= {};
+    info[key] = value;
+  }
+}
+
+function deleteValue(track: Track, key: string) {
+  if (key === "release_name") {
+    delete track.release_name;
+  } else if (!isTrackKey(key)) {
+    delete track.additional_info?.[key];
+  }
+}
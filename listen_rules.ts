@@ -0,0 +1,96 @@
+import { ValidationError } from "@cliffy/command";
+import type { Listen } from "@kellnerd/listenbrainz/listen";
+import { parse as parseYaml } from "@std/yaml";
+import {
+  evaluateFilter,
+  type FilterExpression,
+  parseFilterExpression,
+} from "./listen_filter.ts";
+import {
+  applyEdit,
+  type ListenEdit,
+  parseEditExpression,
+} from "./listen_modifier.ts";
+
+/** Rule which edits all listens that match its filter expression. */
+export interface ListenRule {
+  /** Name of the rule, defaults to its position in the rules file. */
+  name: string;
+  /** Filter expression, rules without filter apply to all listens. */
+  filter?: FilterExpression;
+  /** Edits which are applied to matching listens. */
+  edits: ListenEdit[];
+  /** Number of listens which have matched the rule so far. */
+  matchCount: number;
+}
+
+/**
+ * Loads rules from a YAML file which contains a list of rules.
+ *
+ * Each rule has an optional `name`, an optional `filter` expression (same
+ * syntax as the `--filter` option) and an `edit` expression or a list of them.
+ */
+export async function loadListenRules(path: string): Promise<ListenRule[]> {
+  const content = await Deno.readTextFile(path);
+  const ruleSpecs = parseYaml(content);
+  if (!Array.isArray(ruleSpecs)) {
+    throw new ValidationError(`"${path}" has to contain a list of rules`);
+  }
+
+  return ruleSpecs.map((spec, index) => {
+    const name = `rule ${index + 1}`;
+    if (typeof spec !== "object" || spec === null) {
+      throw new ValidationError(`${name} in "${path}" has to be an object`);
+    }
+    const { name: ruleName = name, filter, edit } = spec as Record<
+      string,
+      unknown
+    >;
+    const editSpecs = typeof edit === "string" ? [edit] : edit;
+    if (
+      !Array.isArray(editSpecs) ||
+      !editSpecs.every((edit) => typeof edit === "string")
+    ) {
+      throw new ValidationError(
+        `"edit" of ${name} in "${path}" has to be a string or a list of strings`,
+      );
+    }
+    if (filter !== undefined && typeof filter !== "string") {
+      throw new ValidationError(
+        `"filter" of ${name} in "${path}" has to be a string`,
+      );
+    }
+
+    try {
+      return {
+        name: String(ruleName),
+        filter: filter !== undefined
+          ? parseFilterExpression(filter)
+          : undefined,
+        edits: editSpecs.map(parseEditExpression),
+        matchCount: 0,
+      };
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      throw new ValidationError(
+        `Invalid ${name} in "${path}": ${error.message}`,
+      );
+    }
+  });
+}
+
+/**
+ * Applies the given rules (in order) to a listen and counts their matches.
+ *
+ * Each rule is evaluated for the listen as modified by the preceding rules.
+ */
+export function applyListenRules(rules: ListenRule[], listen: Listen) {
+  for (const rule of rules) {
+    if (!rule.filter || evaluateFilter(rule.filter, listen)) {
+      rule.matchCount++;
+      for (const edit of rule.edits) {
+        applyEdit(listen.track_metadata, edit);
+      }
+    }
+  }
+}
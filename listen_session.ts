@@ -0,0 +1,224 @@
+import { ValidationError } from "@cliffy/command";
+import type { Listen, Track } from "@kellnerd/listenbrainz/listen";
+import { extname } from "@std/path/extname";
+import { parse as parseYaml } from "@std/yaml";
+import { getListenDuration } from "./statistics.ts";
+
+/** Item of a listening session, which results in one or multiple listens. */
+export type SessionItem =
+  & (
+    | {
+      /** MusicBrainz URL of the listened release or recording. */
+      url: URL;
+      /** Selected tracks of a release, all tracks by default. */
+      trackRange?: string;
+    }
+    | {
+      /** Metadata of the listened track. */
+      track: Track;
+    }
+  )
+  & {
+    /** Pause after the item in seconds (in addition to the default gap). */
+    pause?: number;
+  };
+
+/** Options to calculate the timestamps of the listens of a session. */
+export interface SessionOptions {
+  /** Start time of the first listen. */
+  startTime?: number;
+  /** End time of the last listen, used if there is no start time. */
+  endTime?: number;
+  /** Gap between two items in seconds, defaults to 0. */
+  gap?: number;
+  /** Duration of tracks with unknown length in seconds, defaults to 240. */
+  defaultDuration?: number;
+  /** Creates listens for an item with a URL, starting at the given time. */
+  resolveUrl: (
+    url: URL,
+    trackRange: string | undefined,
+    startTime: number,
+  ) => Promise<Listen[]>;
+}
+
+/**
+ * Loads a listening session from a text or YAML (`*.yaml`, `*.yml`) file.
+ *
+ * Each line of a text file is a MusicBrainz URL (followed by an optional track
+ * range for releases), track metadata as `<artist> - <title>` or a pause with
+ * a duration, e.g. `pause 5:00`. Empty lines and lines starting with `#` are
+ * ignored.
+ *
+ * A YAML file contains a list of items, which are either strings (same syntax
+ * as a line of a text file) or objects with the properties `url` and `tracks`
+ * or `artist`, `title`, `release` and `duration`. Objects may have a `pause`
+ * property or consist only of a `pause`.
+ */
+export async function loadListeningSession(
+  path: string,
+): Promise<SessionItem[]> {
+  const content = await Deno.readTextFile(path);
+  const extension = extname(path).toLowerCase();
+  const entries: unknown[] = [];
+  if (extension === ".yaml" || extension === ".yml") {
+    const data = parseYaml(content);
+    if (!Array.isArray(data)) {
+      throw new ValidationError(`"${path}" has to contain a list of items`);
+    }
+    entries.push(...data);
+  } else {
+    entries.push(
+      ...content.split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("#")),
+    );
+  }
+
+  const items: SessionItem[] = [];
+  for (const [index, entry] of entries.entries()) {
+    try {
+      const { item, pause } = typeof entry === "string"
+        ? parseSessionLine(entry)
+        : parseSessionObject(entry);
+      if (item) {
+        items.push(item);
+      } else if (items.length) {
+        const previousItem = items[items.length - 1];
+        previousItem.pause = (previousItem.pause ?? 0) + pause!;
+      } else {
+        throw new ValidationError("Session can not start with a pause");
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      throw new ValidationError(
+        `Invalid item ${index + 1} in "${path}": ${error.message}`,
+      );
+    }
+  }
+  return items;
+}
+
+/**
+ * Creates listens for the given session items, which are listened back to back.
+ *
+ * If a start time is given, the first listen starts at this time. Otherwise the
+ * last listen ends at the given end time.
+ */
+export async function createSessionListens(
+  items: SessionItem[],
+  options: SessionOptions,
+): Promise<Listen[]> {
+  const { gap = 0, defaultDuration = 240, resolveUrl } = options;
+  const baseTime = options.startTime ?? options.endTime;
+  if (baseTime === undefined) {
+    throw new TypeError("Either a start or an end time has to be specified");
+  }
+
+  const listens: Listen[] = [];
+  let time = baseTime;
+  let endTime = baseTime;
+  for (const item of items) {
+    const itemListens = "url" in item
+      ? await resolveUrl(item.url, item.trackRange, time)
+      : [{ listened_at: time, track_metadata: structuredClone(item.track) }];
+    for (const listen of itemListens) {
+      const durationMs = getListenDuration(listen) ?? defaultDuration * 1000;
+      const duration = Math.round(durationMs / 1000);
+      endTime = Math.max(endTime, listen.listened_at + duration);
+      listens.push(listen);
+    }
+    time = endTime + gap + (item.pause ?? 0);
+  }
+
+  if (options.startTime === undefined) {
+    // Shift all listens backwards, so that the last listen ends at the end time.
+    const offset = baseTime - endTime;
+    for (const listen of listens) {
+      listen.listened_at += offset;
+    }
+  }
+  return listens;
+}
+
+/** Parses a duration in seconds or in the format `[h:]mm:ss`. */
+export function parseDuration(value: unknown): number {
+  if (typeof value === "number" && value >= 0) return value;
+  const match = String(value).trim().match(/^(?:(\d+):)?(\d+):(\d{2})$/);
+  if (match) {
+    const [hours = 0, minutes, seconds] = match.slice(1).map((part) =>
+      part === undefined ? undefined : Number(part)
+    );
+    return (hours * 60 + minutes!) * 60 + seconds!;
+  }
+  const seconds = Number(value);
+  if (String(value).trim() && seconds >= 0) return seconds;
+  throw new ValidationError(`Invalid duration "${value}"`);
+}
+
+interface ParsedEntry {
+  item?: SessionItem;
+  pause?: number;
+}
+
+function parseSessionLine(line: string): ParsedEntry {
+  const pauseMatch = line.match(/^pause\s+(.+)$/i);
+  if (pauseMatch) {
+    return { pause: parseDuration(pauseMatch[1]) };
+  }
+  if (/^https?:\/\//.test(line)) {
+    const [url, trackRange] = line.split(/\s+/, 2);
+    if (!URL.canParse(url)) {
+      throw new ValidationError(`Invalid URL "${url}"`);
+    }
+    return { item: { url: new URL(url), trackRange } };
+  }
+  const trackMatch = line.match(/(?<artist>.+?) -+ (?<title>.+)/);
+  if (!trackMatch?.groups) {
+    throw new ValidationError(`Invalid metadata format "${line}"`);
+  }
+  return {
+    item: {
+      track: {
+        artist_name: trackMatch.groups.artist,
+        track_name: trackMatch.groups.title,
+      },
+    },
+  };
+}
+
+function parseSessionObject(entry: unknown): ParsedEntry {
+  if (typeof entry !== "object" || entry === null) {
+    throw new ValidationError("Item has to be a string or an object");
+  }
+  const { url, tracks, artist, title, release, duration, pause } =
+    entry as Record<string, unknown>;
+  const pauseDuration = pause !== undefined ? parseDuration(pause) : undefined;
+
+  if (url !== undefined) {
+    if (typeof url !== "string" || !URL.canParse(url)) {
+      throw new ValidationError(`Invalid URL "${url}"`);
+    }
+    return {
+      item: {
+        url: new URL(url),
+        trackRange: tracks !== undefined ? String(tracks) : undefined,
+        pause: pauseDuration,
+      },
+    };
+  } else if (artist !== undefined || title !== undefined) {
+    if (typeof artist !== "string" || typeof title !== "string") {
+      throw new ValidationError('Both "artist" and "title" have to be strings');
+    }
+    const track: Track = { artist_name: artist, track_name: title };
+    if (release !== undefined) {
+      track.release_name = String(release);
+    }
+    if (duration !== undefined) {
+      track.additional_info = { duration_ms: parseDuration(duration) * 1000 };
+    }
+    return { item: { track, pause: pauseDuration } };
+  } else if (pauseDuration !== undefined) {
+    return { pause: pauseDuration };
+  }
+  throw new ValidationError('Item needs a "url", track metadata or a "pause"');
+}
@@ -0,0 +1,252 @@
+import type { Listen } from "@kellnerd/listenbrainz/listen";
+import { isStdio, openInputFile } from "./input.ts";
+import { getListenDuration } from "./statistics.ts";
+import { getJsonListens, readListenBrainzExportFiles } from "./utils.ts";
+import { isZipArchive } from "./zip.ts";
+
+/** Severity of a validation issue. */
+export type Severity = "error" | "warning";
+
+/** Problem of a listen which has been detected by a validator. */
+export interface ValidationIssue {
+  /** Errors will be rejected by ListenBrainz, warnings indicate bad data. */
+  severity: Severity;
+  /** Description of the problem. */
+  message: string;
+}
+
+/** Validation issue of a listen from a file. */
+export interface ListenIssue extends ValidationIssue {
+  /** Position of the listen in the file (starting at 1). */
+  position: number;
+  /** Line number of the listen (only for JSONL files). */
+  line?: number;
+  /** Name of the file inside of a ZIP archive which contains the listen. */
+  entry?: string;
+}
+
+/** Minimum timestamp which is accepted by ListenBrainz (2002-10-01). */
+const minimumTimestamp = 1033430400;
+
+/** Maximum size (in bytes) of a serialized listen accepted by ListenBrainz. */
+const maximumListenSize = 10240;
+
+/** Additional info properties which contain MBIDs. */
+const mbidKeys = ["recording_mbid", "release_mbid", "release_group_mbid"];
+
+/** Additional info properties which contain lists of MBIDs. */
+const mbidListKeys = ["artist_mbids", "work_mbids"];
+
+const mbidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates listens before they are submitted to ListenBrainz.
+ *
+ * Each listen is also compared to the previously validated listen to detect
+ * overlapping listens, so listens should be validated in the order of the
+ * input (ascending or descending by timestamp).
+ */
+export class ListenValidator {
+  #previous: Listen | undefined;
+  #encoder = new TextEncoder();
+
+  /** Checks the given value and returns the detected issues. */
+  validate(value: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const error = (message: string) =>
+      issues.push({ severity: "error", message });
+    const warning = (message: string) =>
+      issues.push({ severity: "warning", message });
+
+    if (!isObject(value)) {
+      error("Listen is not an object");
+      return issues;
+    }
+
+    const listen = value as unknown as Listen;
+    const { listened_at, track_metadata: track } = listen;
+    let hasValidTimestamp = false;
+    if (listened_at === undefined) {
+      error("Missing listened_at");
+    } else if (!Number.isInteger(listened_at)) {
+      error("listened_at is not an integer timestamp");
+    } else if (listened_at < minimumTimestamp) {
+      error(`listened_at is before ${formatTimestamp(minimumTimestamp)}`);
+    } else if (listened_at * 1000 > Date.now()) {
+      error(`listened_at is in the future (${formatTimestamp(listened_at)})`);
+    } else {
+      hasValidTimestamp = true;
+    }
+
+    if (!isObject(track)) {
+      error("Missing track_metadata");
+      return issues;
+    }
+    for (const key of ["artist_name", "track_name"] as const) {
+      if (typeof track[key] !== "string" || !track[key].trim()) {
+        error(`Missing ${key}`);
+      }
+    }
+    if (
+      track.release_name !== undefined && typeof track.release_name !== "string"
+    ) {
+      error("release_name is not a string");
+    }
+
+    const info = track.additional_info as Record<string, unknown> | undefined;
+    if (info !== undefined && !isObject(info)) {
+      error("additional_info is not an object");
+    } else if (info) {
+      for (const key of mbidKeys) {
+        const mbid = info[key];
+        if (mbid !== undefined && !isMbid(mbid)) {
+          error(`${key} is not a valid MBID: ${JSON.stringify(mbid)}`);
+        }
+      }
+      for (const key of mbidListKeys) {
+        const mbids = info[key];
+        if (mbids === undefined) continue;
+        if (!Array.isArray(mbids)) {
+          error(`${key} is not a list of MBIDs`);
+        } else {
+          for (const mbid of mbids.filter((mbid) => !isMbid(mbid))) {
+            error(`${key} contains an invalid MBID: ${JSON.stringify(mbid)}`);
+          }
+        }
+      }
+    }
+
+    const size = this.#encoder.encode(JSON.stringify(listen)).length;
+    if (size > maximumListenSize) {
+      error(`Listen is too large (${size} bytes, max. ${maximumListenSize})`);
+    }
+
+    if (hasValidTimestamp) {
+      const previous = this.#previous;
+      if (previous) {
+        const [earlier, later] = previous.listened_at <= listened_at
+          ? [previous, listen]
+          : [listen, previous];
+        const duration = getListenDuration(earlier);
+        const gap = (later.listened_at - earlier.listened_at) * 1000;
+        if (duration !== undefined && gap < duration) {
+          warning(
+            `Overlaps with the previous listen (${gap / 1000}s apart, ` +
+              `but the earlier track lasts ${Math.round(duration / 1000)}s)`,
+          );
+        }
+      }
+      this.#previous = listen;
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Validates all listens in the JSON or JSONL file at the given path (or stdin)
+ * and yields the detected issues.
+ *
+ * ListenBrainz export archives (ZIP) are also supported, issues of their
+ * monthly listen files are reported with the name of the file.
+ * Lines of JSONL files which are not valid JSON are reported as errors.
+ * If a filter is given, only listens which pass it are validated.
+ */
+export async function* validateListensFile(
+  path: string,
+  options: { filter?: (listen: Listen) => boolean } = {},
+): AsyncGenerator<ListenIssue> {
+  const validator = new ListenValidator();
+  const isSelected = (value: unknown) =>
+    !options.filter || !isListen(value) || options.filter(value);
+  let position = 0;
+
+  const validateJsonLines = async function* (
+    stream: ReadableStream<string>,
+    entry?: string,
+  ): AsyncGenerator<ListenIssue> {
+    let line = 0;
+    for await (const text of readLines(stream)) {
+      line++;
+      if (!text.trim()) continue;
+      position++;
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        const { message } = error as SyntaxError;
+        yield {
+          position,
+          line,
+          entry,
+          severity: "error",
+          message: `Invalid JSON: ${message}`,
+        };
+        continue;
+      }
+      if (!isSelected(value)) continue;
+      for (const issue of validator.validate(value)) {
+        yield { position, line, entry, ...issue };
+      }
+    }
+  };
+
+  if (!isStdio(path) && await isZipArchive(path)) {
+    for await (const { name, stream } of readListenBrainzExportFiles(path)) {
+      yield* validateJsonLines(stream, name);
+    }
+    return;
+  }
+
+  const { format, stream, data } = await openInputFile(path);
+  if (format === "jsonl") {
+    yield* validateJsonLines(stream);
+  } else if (format === "json") {
+    const listens: unknown[] = getJsonListens(data);
+    for (const [index, value] of listens.entries()) {
+      if (!isSelected(value)) continue;
+      for (const issue of validator.validate(value)) {
+        yield { position: index + 1, ...issue };
+      }
+    }
+  } else {
+    await stream.cancel();
+    throw new Error(
+      `Unsupported input format "${format}", use "parse" to convert it first`,
+    );
+  }
+}
+
+/** Splits the given text stream into lines. */
+async function* readLines(
+  stream: ReadableStream<string>,
+): AsyncGenerator<string> {
+  let buffer = "";
+  for await (const chunk of stream) {
+    const lines = (buffer + chunk).split("\n");
+    buffer = lines.pop()!;
+    yield* lines;
+  }
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Checks whether the value has the basic structure of a listen. */
+function isListen(value: unknown): value is Listen {
+  return isObject(value) && typeof value.listened_at === "number" &&
+    isObject(value.track_metadata);
+}
+
+function isMbid(value: unknown): boolean {
+  return typeof value === "string" && mbidPattern.test(value);
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
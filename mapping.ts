@@ -0,0 +1,174 @@
+import type { Listen } from "@kellnerd/listenbrainz/listen";
+import { MusicBrainzClient } from "@kellnerd/musicbrainz";
+import { type AppInfo, JsonLogger, normalizeName } from "./utils.ts";
+
+/** Best matching MusicBrainz recording for a track. */
+export interface RecordingMatch {
+  /** MBID of the recording. */
+  recording_mbid: string;
+  /** MBID of a release of the recording with the same name (if any). */
+  release_mbid?: string;
+  /** MBIDs of the credited artists. */
+  artist_mbids: string[];
+  /** Title of the recording. */
+  title: string;
+  /** Credited artist name of the recording. */
+  artist: string;
+  /** Search score (0-100). */
+  score: number;
+}
+
+/** Recording from the results of the MusicBrainz search API. */
+interface RecordingResult {
+  id: string;
+  score: number;
+  title: string;
+  "artist-credit"?: Array<{
+    name: string;
+    joinphrase?: string;
+    artist: { id: string; name: string };
+  }>;
+  releases?: Array<{ id: string; title: string }>;
+}
+
+/**
+ * Maps tracks to MusicBrainz recordings using the MusicBrainz search API.
+ *
+ * Requests are rate limited by the MusicBrainz client, results are cached in
+ * memory and optionally in a JSONL file to make subsequent runs cheap.
+ */
+export class RecordingMapper {
+  #client: MusicBrainzClient;
+  #cache = new Map<string, RecordingMatch | null>();
+  #cacheFile = new JsonLogger();
+
+  constructor(app: AppInfo) {
+    this.#client = new MusicBrainzClient({ app });
+  }
+
+  /**
+   * Loads cached results from the given JSONL file and appends new ones.
+   *
+   * Lines which are not valid JSON (e.g. from an interrupted run) are skipped.
+   */
+  async openCache(path: string) {
+    try {
+      const content = await Deno.readTextFile(path);
+      for (const line of content.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const { key, match } = JSON.parse(line);
+          this.#cache.set(key, match);
+        } catch (error) {
+          if (!(error instanceof SyntaxError)) throw error;
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+    await this.#cacheFile.open(path);
+  }
+
+  /** Closes the cache file. */
+  async close() {
+    await this.#cacheFile.close();
+  }
+
+  /**
+   * Returns the best matching recording for the track of the given listen,
+   * or `null` if there is no candidate at all.
+   */
+  async findRecording(listen: Listen): Promise<RecordingMatch | null> {
+    const { artist_name, track_name, release_name } = listen.track_metadata;
+    const key = [artist_name, track_name, release_name ?? ""]
+      .map(normalizeName).join("\0");
+    let match = this.#cache.get(key);
+    if (match === undefined) {
+      match = await this.#search(artist_name, track_name, release_name);
+      this.#cache.set(key, match);
+      await this.#cacheFile.log({ key, match });
+    }
+    return match;
+  }
+
+  async #search(
+    artist: string,
+    track: string,
+    release?: string,
+  ): Promise<RecordingMatch | null> {
+    const conditions = [
+      `recording:${quote(track)}`,
+      `artist:${quote(artist)}`,
+    ];
+    if (release) {
+      conditions.push(`release:${quote(release)}`);
+    }
+    let recordings = await this.#searchRecordings(conditions.join(" AND "));
+    if (!recordings.length && release) {
+      // The release name might be different, so try again without it.
+      recordings = await this.#searchRecordings(
+        conditions.slice(0, 2).join(" AND "),
+      );
+    }
+
+    const [best] = recordings;
+    if (!best) return null;
+    const credit = best["artist-credit"] ?? [];
+    const releaseName = release ? normalizeName(release) : undefined;
+    return {
+      recording_mbid: best.id,
+      release_mbid: best.releases?.find((release) =>
+        normalizeName(release.title) === releaseName
+      )?.id,
+      artist_mbids: credit.map(({ artist }) => artist.id),
+      title: best.title,
+      artist: credit.map(({ name, joinphrase }) => name + (joinphrase ?? ""))
+        .join(""),
+      score: best.score,
+    };
+  }
+
+  async #searchRecordings(query: string): Promise<RecordingResult[]> {
+    const { recordings } = await this.#client.search("recording", {
+      query,
+      limit: 5,
+    });
+    return recordings ?? [];
+  }
+}
+
+/**
+ * Checks whether the title and the artist credit of the recording match are
+ * the same as the track and artist names of the listen (after normalization).
+ */
+export function hasMatchingNames(
+  listen: Listen,
+  match: RecordingMatch,
+): boolean {
+  const { artist_name, track_name } = listen.track_metadata;
+  return normalizeName(match.title) === normalizeName(track_name) &&
+    normalizeName(match.artist) === normalizeName(artist_name);
+}
+
+/**
+ * Adds the MBIDs of the given recording match to the listen.
+ *
+ * The search score is stored as `mbid_match_score` additional info property.
+ */
+export function applyRecordingMatch(listen: Listen, match: RecordingMatch) {
+  const track = listen.track_metadata;
+  const info = track.additional_info ??= {};
+  info.recording_mbid = match.recording_mbid;
+  if (match.release_mbid) {
+    info.release_mbid = match.release_mbid;
+  }
+  if (match.artist_mbids.length) {
+    info.artist_mbids = match.artist_mbids;
+  }
+  info.mbid_match_score = match.score;
+}
+
+/** Quotes a value for a Lucene search query. */
+function quote(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
@@ -0,0 +1,54 @@
+import type { Listen } from "@kellnerd/listenbrainz/listen";
+
+/**
+ * Merges the given chronologically sorted sources of listens into one stream
+ * of listens, which is sorted by timestamp.
+ *
+ * Only the next listen of each source is kept in memory. Throws if a source
+ * turns out not to be sorted.
+ */
+export async function* mergeListens<T extends Listen>(
+  sources: AsyncIterable<T>[],
+): AsyncGenerator<T> {
+  const iterators = sources.map((source) => source[Symbol.asyncIterator]());
+  const heads: Array<T | undefined> = await Promise.all(
+    iterators.map(async (iterator) => (await iterator.next()).value),
+  );
+
+  try {
+    while (true) {
+      let index = -1;
+      for (let i = 0; i < heads.length; i++) {
+        const head = heads[i];
+        if (
+          head && (index < 0 || head.listened_at < heads[index]!.listened_at)
+        ) {
+          index = i;
+        }
+      }
+      if (index < 0) return;
+
+      const listen = heads[index]!;
+      yield listen;
+      const next = await iterators[index].next();
+      if (!next.done && next.value.listened_at < listen.listened_at) {
+        throw new Error(`Source #${index + 1} is not sorted chronologically`);
+      }
+      heads[index] = next.value;
+    }
+  } finally {
+    await Promise.all(iterators.map((iterator) => iterator.return?.()));
+  }
+}
+
+/** Checks whether the given listens are sorted by timestamp (ascending). */
+export async function isChronological(
+  listens: AsyncIterable<Listen>,
+): Promise<boolean> {
+  let previous = -Infinity;
+  for await (const listen of listens) {
+    if (listen.listened_at < previous) return false;
+    previous = listen.listened_at;
+  }
+  return true;
+}
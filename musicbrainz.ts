@@ -0,0 +1,244 @@
+import { ValidationError } from "@cliffy/command";
+import type { Listen, Track } from "@kellnerd/listenbrainz/listen";
+import { parseMusicBrainzRelease } from "@kellnerd/listenbrainz/parser/musicbrainz";
+import { MusicBrainzClient } from "@kellnerd/musicbrainz";
+import { parseTrackRange } from "@kellnerd/musicbrainz/utils/track";
+import type { AppInfo } from "./utils.ts";
+
+/** MusicBrainz URLs which are accepted by the CLI. */
+export const musicBrainzUrlPattern = new URLPattern({
+  pathname:
+    "/:entity(release-group|release|recording|track)/:mbid([0-9a-f-]{36})",
+});
+
+/** Options to select tracks and to calculate the timestamps of listens. */
+export interface UrlListenOptions {
+  /** Selected tracks of a release, all tracks by default. */
+  trackRange?: string;
+  /** Start time of the first listen. */
+  startTime?: number;
+  /** End time of the last listen, used if there is no start time. */
+  endTime?: number;
+}
+
+/** Preferences to pick a release of a release group. */
+export interface ReleasePreference {
+  /** Preferred medium formats (in order), e.g. `Vinyl` or `CD`. */
+  formats?: string[];
+  /** Preferred release countries (in order), e.g. `GB` or `XW`. */
+  countries?: string[];
+  /** Ask the user to choose a release (ordered by preference). */
+  interactive?: boolean;
+}
+
+/** Release from the results of the MusicBrainz browse API. */
+interface ReleaseResult {
+  id: string;
+  title: string;
+  disambiguation?: string;
+  status?: string;
+  date?: string;
+  country?: string;
+  media?: Array<{ format?: string }>;
+}
+
+/**
+ * Creates listens for MusicBrainz entities which are given by their URLs.
+ *
+ * Requests are rate limited by the MusicBrainz client.
+ */
+export class MusicBrainzListenSource {
+  #client: MusicBrainzClient;
+  #preference: ReleasePreference;
+
+  constructor(app: AppInfo, preference: ReleasePreference = {}) {
+    this.#client = new MusicBrainzClient({ app });
+    this.#preference = preference;
+  }
+
+  /**
+   * Looks up the MusicBrainz entity of the given URL and creates listens.
+   *
+   * Release URLs result in listens for the selected tracks, recording and track
+   * URLs in a single listen. For release group URLs, a release is picked based
+   * on the preferences (or by the user).
+   */
+  async getListens(
+    url: URL,
+    options: UrlListenOptions = {},
+  ): Promise<Listen[]> {
+    const { entity, mbid } = musicBrainzUrlPattern.exec(url)?.pathname.groups ??
+      {};
+    if (!entity || !mbid) {
+      throw new ValidationError(
+        "Unsupported URL, only MusicBrainz release, release group, recording and track URLs are allowed.",
+      );
+    }
+    const { trackRange, startTime, endTime } = options;
+    if (trackRange && (entity === "recording" || entity === "track")) {
+      throw new ValidationError(
+        "Track ranges are only allowed for releases (and release groups).",
+      );
+    }
+
+    switch (entity) {
+      case "recording":
+        return [await this.#getRecordingListen(mbid, startTime, endTime)];
+      case "track":
+        return [await this.#getTrackListen(mbid, startTime, endTime)];
+      case "release-group": {
+        const releases = await this.#browseReleases({
+          "release-group": mbid,
+          inc: ["media"],
+        });
+        const release = this.#pickRelease(releases);
+        return this.#getReleaseListens(release.id, options);
+      }
+      default:
+        return this.#getReleaseListens(mbid, options);
+    }
+  }
+
+  async #getReleaseListens(
+    mbid: string,
+    options: UrlListenOptions,
+  ): Promise<Listen[]> {
+    const release = await this.#client.lookup("release", mbid, {
+      inc: ["recordings", "artist-credits"],
+    });
+    return parseMusicBrainzRelease(release, {
+      startTime: options.startTime,
+      endTime: options.endTime,
+      tracks: parseTrackRange(options.trackRange ?? ""),
+    });
+  }
+
+  async #getRecordingListen(
+    mbid: string,
+    startTime?: number,
+    endTime?: number,
+  ): Promise<Listen> {
+    const recording = await this.#client.lookup("recording", mbid, {
+      inc: ["artist-credits"],
+    });
+    const credit = recording["artist-credit"] ?? [];
+    const track: Track = {
+      artist_name: credit.map(({ name, joinphrase }) => name + joinphrase)
+        .join(""),
+      track_name: recording.title,
+      additional_info: {
+        recording_mbid: recording.id,
+        artist_mbids: credit.map(({ artist }) => artist.id),
+      },
+    };
+    const duration = recording.length ?? undefined;
+    if (duration) {
+      track.additional_info!.duration_ms = duration;
+    }
+    return {
+      listened_at: getStartTime(duration, startTime, endTime),
+      track_metadata: track,
+    };
+  }
+
+  async #getTrackListen(
+    mbid: string,
+    startTime?: number,
+    endTime?: number,
+  ): Promise<Listen> {
+    const [release] = await this.#browseReleases({ track: mbid });
+    if (!release) {
+      throw new Error(`Track ${mbid} does not exist`);
+    }
+    // Parse all tracks of the release and only keep the selected one.
+    const listen = (await this.#getReleaseListens(release.id, {}))
+      .find((listen) =>
+        listen.track_metadata.additional_info?.track_mbid === mbid
+      );
+    if (!listen) {
+      throw new Error(`Track ${mbid} not found on release ${release.id}`);
+    }
+    const duration = listen.track_metadata.additional_info?.duration_ms;
+    listen.listened_at = getStartTime(duration, startTime, endTime);
+    return listen;
+  }
+
+  #pickRelease(releases: ReleaseResult[]): ReleaseResult {
+    const { formats = [], countries = [], interactive } = this.#preference;
+    const rank = (values: string[], matches: (value: string) => boolean) => {
+      const index = values.findIndex(matches);
+      return index >= 0 ? index : values.length;
+    };
+    const candidates = releases.map((release) => {
+      const releaseFormats = release.media?.map((medium) =>
+        medium.format?.toLowerCase() ?? ""
+      ) ?? [];
+      return {
+        release,
+        formatRank: rank(
+          formats,
+          (format) =>
+            releaseFormats.some((releaseFormat) =>
+              releaseFormat.includes(format.toLowerCase())
+            ),
+        ),
+        countryRank: rank(
+          countries,
+          (country) => country.toUpperCase() === release.country?.toUpperCase(),
+        ),
+        isOfficial: release.status === "Official",
+      };
+    }).sort((a, b) =>
+      a.formatRank - b.formatRank ||
+      a.countryRank - b.countryRank ||
+      Number(b.isOfficial) - Number(a.isOfficial) ||
+      // Prefer the earliest release, releases without date come last.
+      (a.release.date || "9999").localeCompare(b.release.date || "9999")
+    ).map(({ release }) => release);
+
+    if (!candidates.length) {
+      throw new Error("Release group has no releases");
+    }
+    if (!interactive) return candidates[0];
+
+    for (const [index, release] of candidates.entries()) {
+      console.log(`${index + 1}.`, formatRelease(release));
+    }
+    const answer = prompt("Select a release:", "1");
+    const release = candidates[Number(answer) - 1];
+    if (!release) {
+      throw new ValidationError(`Invalid release selection "${answer}"`);
+    }
+    return release;
+  }
+
+  async #browseReleases(
+    query: Record<string, string | string[]>,
+  ): Promise<ReleaseResult[]> {
+    const { releases } = await this.#client.browse("release", {
+      ...query,
+      limit: 100,
+    });
+    return releases ?? [];
+  }
+}
+
+/** Returns the start time of a listen, calculated from its end if necessary. */
+function getStartTime(
+  durationMs: number | undefined,
+  startTime?: number,
+  endTime?: number,
+): number {
+  return startTime ?? (endTime ?? 0) - Math.round((durationMs ?? 0) / 1000);
+}
+
+/** Formats a release as a line with date, country, formats and title. */
+function formatRelease(release: ReleaseResult): string {
+  const formats = release.media?.map((medium) => medium.format ?? "?")
+    .join(" + ");
+  const title = release.disambiguation
+    ? `${release.title} (${release.disambiguation})`
+    : release.title;
+  return [release.date || "????", release.country ?? "??", formats, title]
+    .filter(Boolean).join(" | ");
+}
@@ -0,0 +1,233 @@
+import {
+  type AdditionalTrackInfo,
+  formatListen,
+  type InsertedListen,
+  type Listen,
+  type Track,
+} from "@kellnerd/listenbrainz/listen";
+import { formatZonedDate, getZonedWallClockTime } from "./timezone.ts";
+
+/** Formats in which listens and statistics can be printed. */
+export type OutputFormat =
+  | "text"
+  | "table"
+  | "csv"
+  | "tsv"
+  | "json"
+  | "markdown";
+
+/** Supported values of {@linkcode OutputFormat}. */
+export const outputFormats: OutputFormat[] = [
+  "text",
+  "table",
+  "csv",
+  "tsv",
+  "json",
+  "markdown",
+];
+
+/** Columns which are printed for listens by default. */
+export const defaultListenColumns = [
+  "date",
+  "artist_name",
+  "track_name",
+  "release_name",
+];
+
+/**
+ * Prints rows of values with the given columns to the console.
+ *
+ * CSV and TSV rows are printed immediately, all other formats are printed
+ * once {@linkcode TableWriter.end} is called.
+ */
+export class TableWriter {
+  #format: Exclude<OutputFormat, "text">;
+  #columns: string[];
+  #rows: Record<string, unknown>[] = [];
+  #hasHeader = false;
+
+  constructor(format: Exclude<OutputFormat, "text">, columns: string[]) {
+    this.#format = format;
+    this.#columns = columns;
+  }
+
+  /** Writes a row, which maps column names to values. */
+  write(row: Record<string, unknown>) {
+    if (this.#format === "csv" || this.#format === "tsv") {
+      this.#writeHeader();
+      console.log(this.#formatLine(this.#columns.map((column) => row[column])));
+    } else {
+      this.#rows.push(row);
+    }
+  }
+
+  /** Prints all buffered rows (or only the header if there are no rows). */
+  end() {
+    switch (this.#format) {
+      case "csv":
+      case "tsv":
+        this.#writeHeader();
+        break;
+      case "json": {
+        const rows = this.#rows.map((row) =>
+          Object.fromEntries(
+            this.#columns.map((column) => [column, row[column]]),
+          )
+        );
+        console.log(JSON.stringify(rows, null, 2));
+        break;
+      }
+      case "markdown": {
+        const lines = [
+          this.#columns,
+          this.#columns.map(() => "---"),
+          ...this.#rows.map((row) =>
+            this.#columns.map((column) => stringifyValue(row[column]))
+          ),
+        ];
+        for (const line of lines) {
+          const cells = line.map((cell) => cell.replaceAll("|", "\\|"));
+          console.log(`| ${cells.join(" | ")} |`);
+        }
+        break;
+      }
+      case "table": {
+        const lines = [
+          this.#columns,
+          ...this.#rows.map((row) =>
+            this.#columns.map((column) => stringifyValue(row[column]))
+          ),
+        ];
+        const widths = this.#columns.map((_column, index) =>
+          Math.max(...lines.map((line) => line[index].length))
+        );
+        lines.splice(1, 0, widths.map((width) => "-".repeat(width)));
+        for (const line of lines) {
+          console.log(
+            line.map((cell, index) => cell.padEnd(widths[index])).join("  ")
+              .trimEnd(),
+          );
+        }
+        break;
+      }
+    }
+    this.#rows = [];
+  }
+
+  #writeHeader() {
+    if (this.#hasHeader) return;
+    console.log(this.#formatLine(this.#columns));
+    this.#hasHeader = true;
+  }
+
+  #formatLine(values: unknown[]): string {
+    if (this.#format === "tsv") {
+      return values.map((value) => stringifyValue(value).replace(/\s/g, " "))
+        .join("\t");
+    }
+    return formatCsvLine(values);
+  }
+}
+
+/**
+ * Prints listens to the console, either formatted with the listen template
+ * (text) or with the selected columns in one of the tabular formats.
+ */
+export class ListenPrinter {
+  #template?: string;
+  #columns: string[];
+  #timeZone?: string;
+  #writer?: TableWriter;
+
+  constructor(options: {
+    format?: OutputFormat;
+    columns?: string[];
+    template?: string;
+    /** Time zone in which dates are shown (instead of UTC). */
+    timeZone?: string;
+  } = {}) {
+    const { format = "text", columns = defaultListenColumns } = options;
+    this.#template = options.template;
+    this.#columns = columns;
+    this.#timeZone = options.timeZone;
+    if (format !== "text") {
+      this.#writer = new TableWriter(format, columns);
+    }
+  }
+
+  /** Prints the given listen. */
+  print(listen: Listen) {
+    if (this.#writer) {
+      this.#writer.write(Object.fromEntries(
+        this.#columns.map((column) => [
+          column,
+          getListenValue(listen, column, this.#timeZone),
+        ]),
+      ));
+    } else if (this.#timeZone) {
+      // The template shows UTC dates, so the listen is shifted to wall-clock time.
+      console.log(formatListen({
+        ...listen,
+        listened_at: getZonedWallClockTime(listen.listened_at, this.#timeZone),
+      }, this.#template));
+    } else {
+      console.log(formatListen(listen, this.#template));
+    }
+  }
+
+  /** Finishes the output, must be called after the last listen was printed. */
+  end() {
+    this.#writer?.end();
+  }
+}
+
+/**
+ * Returns the value of the given column for a listen.
+ *
+ * Besides `listened_at` and the track metadata (and additional info) keys,
+ * the pseudo column `date` is available which contains an ISO 8601 date/time
+ * (in UTC or in the given time zone).
+ */
+export function getListenValue(
+  listen: Listen,
+  column: string,
+  timeZone?: string,
+): unknown {
+  const track = listen.track_metadata;
+  switch (column) {
+    case "date":
+      if (timeZone) return formatZonedDate(listen.listened_at, timeZone);
+      return new Date(listen.listened_at * 1000).toISOString()
+        .replace(".000Z", "Z");
+    case "listened_at":
+      return listen.listened_at;
+    case "inserted_at":
+    case "recording_msid":
+    case "user_name":
+      return (listen as Partial<InsertedListen>)[column];
+    default:
+      return track[column as keyof Track] ??
+        track.additional_info?.[column as keyof AdditionalTrackInfo];
+  }
+}
+
+/** Formats the given values as a line of comma-separated values. */
+export function formatCsvLine(values: unknown[]): string {
+  return values.map((value) => escapeCsv(stringifyValue(value))).join(",");
+}
+
+/** Converts a value into text, lists are joined by commas. */
+export function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(stringifyValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/** Encloses a CSV value in quotes if necessary. */
+function escapeCsv(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replaceAll('"', '""')}"`;
+  }
+  return value;
+}
@@ -0,0 +1,86 @@
+import { delay } from "./utils.ts";
+
+/** Options for requests which are retried. */
+export interface RetryOptions {
+  /** Maximum number of attempts per request. */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled for every retry. */
+  initialDelay?: number;
+  /** Hosts to which requests are rate limited (default: ListenBrainz API). */
+  hosts?: string[];
+}
+
+/**
+ * Wraps the given fetch function to respect the rate limit of the ListenBrainz
+ * API and to retry failed requests.
+ *
+ * Waits until the rate limit is reset, if the `X-RateLimit-Remaining` header
+ * indicates that no requests are left. Requests which have been rejected with
+ * status 429 (too many requests) are retried after the time given by the
+ * `X-RateLimit-Reset-In` header. Server errors and network errors are retried
+ * with exponential backoff.
+ */
+export function createRateLimitedFetch(
+  fetchFn: typeof fetch,
+  options: RetryOptions = {},
+): typeof fetch {
+  const {
+    maxAttempts = 5,
+    initialDelay = 1000,
+    hosts = ["api.listenbrainz.org"],
+  } = options;
+  let resetTime = 0;
+
+  return async function (input, init) {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (!hosts.includes(url.host)) {
+      return fetchFn(input, init);
+    }
+
+    for (let attempt = 1;; attempt++) {
+      const waitTime = resetTime - Date.now();
+      if (waitTime > 0) {
+        console.warn(
+          `Rate limit reached, waiting ${Math.ceil(waitTime / 1000)}s`,
+        );
+        await delay(waitTime);
+      }
+
+      const backoff = initialDelay * 2 ** (attempt - 1);
+      let response: Response;
+      try {
+        response = await fetchFn(
+          input instanceof Request ? input.clone() : input,
+          init,
+        );
+      } catch (error) {
+        // Network errors are thrown as `TypeError` by `fetch`.
+        if (!(error instanceof TypeError) || attempt >= maxAttempts) {
+          throw error;
+        }
+        console.warn(`Request failed (${error.message}), retrying`);
+        await delay(backoff);
+        continue;
+      }
+
+      const remaining = response.headers.get("X-RateLimit-Remaining");
+      const resetIn = Number(response.headers.get("X-RateLimit-Reset-In"));
+      if (remaining === "0" || response.status === 429) {
+        resetTime = Date.now() + (resetIn > 0 ? resetIn * 1000 : backoff);
+      }
+
+      if (
+        attempt < maxAttempts &&
+        (response.status === 429 || response.status >= 500)
+      ) {
+        await response.body?.cancel();
+        if (response.status >= 500) {
+          console.warn(`Request failed (${response.status}), retrying`);
+          await delay(backoff);
+        }
+        continue;
+      }
+      return response;
+    }
+  };
+}
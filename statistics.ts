@@ -0,0 +1,247 @@
+import type {
+  AdditionalTrackInfo,
+  Listen,
+  Track,
+} from "@kellnerd/listenbrainz/listen";
+import { getZonedWallClockTime } from "./timezone.ts";
+
+/** Time units for which listens can be counted per period. */
+export type TimeUnit = "year" | "month" | "week" | "weekday" | "hour";
+
+/** Supported values of {@linkcode TimeUnit}. */
+export const timeUnits: TimeUnit[] = [
+  "year",
+  "month",
+  "week",
+  "weekday",
+  "hour",
+];
+
+/** Statistics for a single value (or time period). */
+export interface ValueStatistics {
+  /** Value of the track metadata key or time period. */
+  value: string | number;
+  /** Number of listens. */
+  count: number;
+  /** Total listening time in milliseconds (only includes known durations). */
+  duration: number;
+  /** Number of listens without known duration. */
+  unknownDurationCount: number;
+  /** Timestamp of the first listen. */
+  first: number;
+  /** Timestamp of the last listen. */
+  last: number;
+}
+
+/** Statistics for all values of a track metadata key or time unit. */
+export interface StatisticsGroup {
+  /** Name of the key or time unit. */
+  name: string;
+  /** Indicates whether the values are time periods. */
+  isTimeUnit: boolean;
+  /** Statistics for each value. */
+  values: Map<string | number, ValueStatistics>;
+}
+
+/** Collects statistics for listens, grouped by keys and time units. */
+export class ListenStatistics {
+  /** Statistics for all listens. */
+  readonly total: ValueStatistics = createValueStatistics("total");
+  /** Statistics for each key and time unit. */
+  readonly groups: StatisticsGroup[];
+
+  /** Time zone of the time periods, UTC by default. */
+  readonly timeZone?: string;
+
+  constructor(
+    options: { keys?: string[]; timeUnits?: TimeUnit[]; timeZone?: string } =
+      {},
+  ) {
+    const { keys = [], timeUnits = [] } = options;
+    this.timeZone = options.timeZone;
+    this.groups = [
+      ...timeUnits.map((name) => ({
+        name,
+        isTimeUnit: true,
+        values: new Map(),
+      })),
+      ...keys.map((name) => ({ name, isTimeUnit: false, values: new Map() })),
+    ];
+  }
+
+  /** Adds the given listen to the statistics. */
+  add(listen: Listen) {
+    const duration = getListenDuration(listen);
+    updateValueStatistics(this.total, listen.listened_at, duration);
+
+    const track = listen.track_metadata;
+    const info = track.additional_info;
+    for (const { name, isTimeUnit, values } of this.groups) {
+      const keyValues = isTimeUnit
+        ? [getTimePeriod(listen.listened_at, name as TimeUnit, this.timeZone)]
+        : makeValidIndexTypes(
+          track[name as keyof Track] ??
+            info?.[name as keyof AdditionalTrackInfo],
+        );
+      for (const value of keyValues) {
+        let stats = values.get(value);
+        if (!stats) {
+          stats = createValueStatistics(value);
+          values.set(value, stats);
+        }
+        updateValueStatistics(stats, listen.listened_at, duration);
+      }
+    }
+  }
+}
+
+/**
+ * Returns the statistics of the given group in display order.
+ *
+ * Time periods are sorted chronologically, other values by count in descending
+ * order, optionally limited to the given number of top values.
+ */
+export function sortValues(
+  group: StatisticsGroup,
+  limit?: number,
+): ValueStatistics[] {
+  const values = [...group.values.values()];
+  if (group.isTimeUnit) {
+    return values.sort((a, b) =>
+      String(a.value).localeCompare(String(b.value))
+    );
+  }
+  values.sort((a, b) => b.count - a.count);
+  return limit !== undefined ? values.slice(0, limit) : values;
+}
+
+/**
+ * Returns the duration of the listen in milliseconds, based on the additional
+ * info properties `duration_ms` or `duration` (in seconds).
+ */
+export function getListenDuration(listen: Listen): number | undefined {
+  const info = listen.track_metadata.additional_info;
+  if (typeof info?.duration_ms === "number") return info.duration_ms;
+  if (typeof info?.duration === "number") return info.duration * 1000;
+}
+
+/** Formats a duration in milliseconds as hours, minutes and seconds. */
+export function formatDuration(duration: number): string {
+  const seconds = Math.round(duration / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor(seconds / 60) % 60;
+  return [hours, pad(minutes), pad(seconds % 60)].join(":");
+}
+
+/** Formats a timestamp as date (YYYY-MM-DD) in UTC or the given time zone. */
+export function formatDate(timestamp: number, timeZone?: string): string {
+  const date = getWallClockDate(timestamp, timeZone);
+  return [
+    date.getUTCFullYear(),
+    pad(date.getUTCMonth() + 1),
+    pad(date.getUTCDate()),
+  ].join("-");
+}
+
+/**
+ * Returns the period of the given time unit which contains the timestamp.
+ *
+ * Periods are determined in UTC, unless a time zone is given.
+ */
+export function getTimePeriod(
+  timestamp: number,
+  unit: TimeUnit,
+  timeZone?: string,
+): string {
+  const date = getWallClockDate(timestamp, timeZone);
+  const year = date.getUTCFullYear();
+  switch (unit) {
+    case "year":
+      return String(year);
+    case "month":
+      return `${year}-${pad(date.getUTCMonth() + 1)}`;
+    case "week":
+      return getIsoWeek(date);
+    case "weekday": {
+      const weekday = (date.getUTCDay() + 6) % 7;
+      return `${weekday + 1} ${weekdayNames[weekday]}`;
+    }
+    case "hour":
+      return pad(date.getUTCHours());
+  }
+}
+
+const weekdayNames = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+/**
+ * Returns a date whose UTC fields represent the wall-clock time of the given
+ * timestamp in the time zone (or UTC).
+ */
+function getWallClockDate(timestamp: number, timeZone?: string): Date {
+  const time = timeZone
+    ? getZonedWallClockTime(timestamp, timeZone)
+    : timestamp;
+  return new Date(time * 1000);
+}
+
+/** Returns the ISO 8601 week (YYYY-Www) of the given (UTC) date. */
+function getIsoWeek(date: Date): string {
+  // Use the Thursday of the same week, it determines the year of the week.
+  const weekday = (date.getUTCDay() + 6) % 7;
+  const thursday = new Date(Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() - weekday + 3,
+  ));
+  const year = thursday.getUTCFullYear();
+  const firstDayOfYear = Date.UTC(year, 0, 1);
+  const dayOfYear = (thursday.getTime() - firstDayOfYear) / 86400000;
+  const week = Math.floor(dayOfYear / 7) + 1;
+  return `${year}-W${pad(week)}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function createValueStatistics(value: string | number): ValueStatistics {
+  return {
+    value,
+    count: 0,
+    duration: 0,
+    unknownDurationCount: 0,
+    first: Infinity,
+    last: -Infinity,
+  };
+}
+
+function updateValueStatistics(
+  stats: ValueStatistics,
+  timestamp: number,
+  duration: number | undefined,
+) {
+  stats.count++;
+  if (duration !== undefined) {
+    stats.duration += duration;
+  } else {
+    stats.unknownDurationCount++;
+  }
+  stats.first = Math.min(stats.first, timestamp);
+  stats.last = Math.max(stats.last, timestamp);
+}
+
+function makeValidIndexTypes(input: unknown): Array<string | number> {
+  if (typeof input === "string" || typeof input === "number") return [input];
+  if (typeof input === "boolean" || input === null) return [String(input)];
+  if (input === undefined) return [""];
+  if (Array.isArray(input)) return input.flatMap(makeValidIndexTypes);
+  return [];
+}
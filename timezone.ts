@@ -0,0 +1,119 @@
+import { timestamp } from "@kellnerd/listenbrainz/timestamp";
+
+/** Pattern of an ISO 8601 date (and time) without UTC offset. */
+const localDateTimePattern =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/** Checks whether the given name is a time zone which is known to `Intl`. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone });
+    return true;
+  } catch (error) {
+    if (!(error instanceof RangeError)) throw error;
+    return false;
+  }
+}
+
+/**
+ * Converts the given date/time into a Unix timestamp (in seconds).
+ *
+ * If a time zone is given, dates and times in ISO 8601 format without an
+ * explicit UTC offset are interpreted as local time in this zone. All other
+ * values are converted by {@linkcode timestamp}.
+ */
+export function parseTimestamp(input: string, timeZone?: string): number {
+  const match = timeZone ? input.match(localDateTimePattern) : null;
+  if (!match) return timestamp(input);
+  const [year, month, day, hours = 0, minutes = 0, seconds = 0] = match
+    .slice(1).map((value) => value === undefined ? undefined : Number(value));
+  const wallClockTime = Date.UTC(
+    year!,
+    month! - 1,
+    day!,
+    hours,
+    minutes,
+    seconds,
+  ) / 1000;
+  return zonedTimeToUtc(wallClockTime, timeZone!);
+}
+
+/**
+ * Reinterprets a timestamp which represents the wall-clock time in the given
+ * time zone (as if it was UTC) and returns the actual Unix timestamp.
+ *
+ * Times which do not exist in the zone (skipped by a daylight saving time
+ * change) are shifted by the size of the gap, ambiguous times resolve to the
+ * later instant.
+ */
+export function zonedTimeToUtc(
+  wallClockTime: number,
+  timeZone: string,
+): number {
+  const guess = wallClockTime - getTimeZoneOffset(wallClockTime, timeZone);
+  return wallClockTime - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * Returns the wall-clock time in the local time zone of the system (as if it
+ * was UTC) for the given Unix timestamp.
+ */
+export function getSystemWallClockTime(time: number): number {
+  return time - new Date(time * 1000).getTimezoneOffset() * 60;
+}
+
+/**
+ * Returns the wall-clock time in the given time zone (as if it was UTC) for
+ * the given Unix timestamp.
+ */
+export function getZonedWallClockTime(time: number, timeZone: string): number {
+  return time + getTimeZoneOffset(time, timeZone);
+}
+
+/**
+ * Formats a timestamp as ISO 8601 date and time in the given time zone,
+ * including its UTC offset, e.g. `2024-01-31T13:34:56+01:00`.
+ */
+export function formatZonedDate(time: number, timeZone: string): string {
+  const offset = getTimeZoneOffset(time, timeZone);
+  const date = new Date((time + offset) * 1000).toISOString()
+    .replace(/\.\d{3}Z$/, "");
+  const absoluteOffset = Math.abs(offset) / 60;
+  const hours = String(Math.floor(absoluteOffset / 60)).padStart(2, "0");
+  const minutes = String(absoluteOffset % 60).padStart(2, "0");
+  return `${date}${offset < 0 ? "-" : "+"}${hours}:${minutes}`;
+}
+
+/** Cache of date formatters per time zone, which are expensive to create. */
+const formatCache = new Map<string, Intl.DateTimeFormat>();
+
+/** Returns the offset of the time zone from UTC (in seconds) at the time. */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  let format = formatCache.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatCache.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(
+    format.formatToParts(new Date(time * 1000))
+      .map(({ type, value }) => [type, Number(value)]),
+  );
+  const wallClockTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  ) / 1000;
+  return wallClockTime - Math.floor(time);
+}
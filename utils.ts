@@ -1,7 +1,9 @@
 import type { InsertedListen, Listen } from "@kellnerd/listenbrainz/listen";
-import { parseJson, parseJsonLines } from "@kellnerd/listenbrainz/parser/json";
+import { parseJsonLines } from "@kellnerd/listenbrainz/parser/json";
 import { assert } from "@std/assert/assert";
-import { extname } from "@std/path/extname";
+import { isStdio, openInputFile } from "./input.ts";
+import { parseTimestamp } from "./timezone.ts";
+import { isZipArchive, ZipReader } from "./zip.ts";
 
 /** Splits the given asynchronous iterable into chunks of the given size. */
 export async function* chunk<T>(
@@ -26,7 +28,66 @@ export async function* chunk<T>(
   }
 }
 
-/** Logger which writes JSON messages into a JSONL file. */
+/** Returns a promise which resolves after the given time (in milliseconds). */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Progress of a batch operation, which is stored in a JSON file to resume an
+ * interrupted operation later.
+ *
+ * The progress is only valid for the same source, which should describe the
+ * input and all options which affect the selection of items.
+ */
+export class Checkpoint {
+  #path: string;
+  #source: string;
+
+  constructor(path: string, source: unknown) {
+    this.#path = path;
+    this.#source = JSON.stringify(source);
+  }
+
+  /** Returns the number of completed items, zero if there is no checkpoint. */
+  async load(): Promise<number> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(this.#path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return 0;
+      throw error;
+    }
+    const { source, completed } = JSON.parse(content);
+    if (source !== this.#source) {
+      console.warn(`Ignoring checkpoint "${this.#path}" of a different input`);
+      return 0;
+    }
+    return completed;
+  }
+
+  /** Saves the number of completed items. */
+  async save(completed: number) {
+    const content = JSON.stringify({ source: this.#source, completed });
+    await Deno.writeTextFile(this.#path, content);
+  }
+
+  /** Removes the checkpoint file once the operation has been completed. */
+  async remove() {
+    try {
+      await Deno.remove(this.#path);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+}
+
+/**
+ * Logger which writes JSON messages into a JSONL file.
+ *
+ * If the path is `-`, messages are written to stdout and console output is
+ * redirected to stderr.
+ */
 export class JsonLogger {
   #encoder: TextEncoder;
   #output: WritableStreamDefaultWriter<Uint8Array> | undefined;
@@ -36,14 +97,15 @@ export class JsonLogger {
     this.#encoder = new TextEncoder();
   }
 
-  /** Opens the output file at the given path (in append mode). */
-  async open(path: string | URL) {
-    const outputFile = await Deno.open(path, {
-      create: true,
-      append: true,
-    });
-    this.#output = outputFile.writable.getWriter();
-    await this.#output.ready;
+  /**
+   * Opens the output file at the given path (in append mode).
+   * Existing content is replaced instead if the `truncate` option is set.
+   */
+  async open(path: string | URL, options: { truncate?: boolean } = {}) {
+    this.#output = await openOutput(
+      path,
+      options.truncate ? { write: true, truncate: true } : { append: true },
+    );
   }
 
   /** Writes a line of stringified JSON into the output file. */
@@ -59,25 +121,233 @@ export class JsonLogger {
   }
 }
 
-/** Reads listens from a JSON or JSONL file at the given path. */
+/**
+ * Writer which writes lines of text into a file (replacing its content).
+ *
+ * If the path is `-`, lines are written to stdout and console output is
+ * redirected to stderr.
+ */
+export class LineWriter {
+  #encoder: TextEncoder;
+  #output: WritableStreamDefaultWriter<Uint8Array> | undefined;
+
+  /** Writer does nothing until {@linkcode LineWriter.open} has been called. */
+  constructor() {
+    this.#encoder = new TextEncoder();
+  }
+
+  /** Opens the output file at the given path (and truncates it). */
+  async open(path: string | URL) {
+    this.#output = await openOutput(path, { write: true, truncate: true });
+  }
+
+  /** Writes a line of text into the output file. */
+  async write(line: string) {
+    if (!this.#output) return;
+    await this.#output.write(this.#encoder.encode(line + "\n"));
+  }
+
+  /** Closes the output file. */
+  async close() {
+    await this.#output?.close();
+  }
+}
+
+/** Opens a file (or stdout) for writing. */
+async function openOutput(
+  path: string | URL,
+  options: Deno.OpenOptions,
+): Promise<WritableStreamDefaultWriter<Uint8Array>> {
+  let output: WritableStream<Uint8Array>;
+  if (isStdio(path)) {
+    // Keep stdout free from messages which would corrupt the output.
+    console.log = console.info = console.error;
+    output = Deno.stdout.writable;
+  } else {
+    const outputFile = await Deno.open(path, { create: true, ...options });
+    output = outputFile.writable;
+  }
+  const writer = output.getWriter();
+  await writer.ready;
+  return writer;
+}
+
+/**
+ * Reads listens from a JSON or JSONL file at the given path (or stdin).
+ *
+ * The format is detected from the content, gzip compressed files are supported.
+ * ListenBrainz export archives (ZIP) are also supported, their monthly listen
+ * files are read in chronological order. Files of months which are outside of
+ * the optional time range are skipped.
+ */
 export async function* readListensFile(
   path: string,
+  options: { after?: string; before?: string; timezone?: string } = {},
 ): AsyncGenerator<Listen | InsertedListen> {
-  const extension = extname(path);
-  if (extension === ".jsonl") {
-    const inputFile = await Deno.open(path);
-    const input = inputFile.readable.pipeThrough(new TextDecoderStream());
+  if (!isStdio(path) && await isZipArchive(path)) {
+    yield* readListenBrainzExport(path, options);
+    return;
+  }
 
-    for await (const listen of parseJsonLines(input)) {
+  const { format, stream, data } = await openInputFile(path);
+  if (format === "jsonl") {
+    for await (const listen of parseJsonLines(stream)) {
       yield listen;
     }
-  } else if (extension === ".json") {
-    const input = await Deno.readTextFile(path);
+  } else if (format === "json") {
+    yield* getJsonListens(data);
+  } else {
+    await stream.cancel();
+    throw new Error(
+      `Unsupported input format "${format}", use "parse" to convert it first`,
+    );
+  }
+}
+
+/**
+ * Returns the listens from parsed JSON data, which is either a single listen,
+ * a list of listens or a ListenBrainz API response with a listens payload.
+ */
+export function getJsonListens(data: unknown): Array<Listen | InsertedListen> {
+  const payload = (data as { payload?: { listens?: unknown } } | null)
+    ?.payload;
+  const listens = Array.isArray(payload?.listens) ? payload.listens : data;
+  return Array.isArray(listens) ? listens : [listens as Listen];
+}
 
-    for (const listen of parseJson(input)) {
+/** Path of a monthly listen file inside a ListenBrainz export archive. */
+const exportListensPattern = /(?:^|\/)listens\/(\d{4})\/(\d{1,2})\.jsonl$/;
+
+/** Reads listens from the monthly files of a ListenBrainz export archive. */
+async function* readListenBrainzExport(
+  path: string,
+  options: { after?: string; before?: string; timezone?: string },
+): AsyncGenerator<Listen | InsertedListen> {
+  for await (const { stream } of readListenBrainzExportFiles(path, options)) {
+    for await (const listen of parseJsonLines(stream)) {
       yield listen;
     }
-  } else {
-    throw new Error(`Unsupported file extension "${extension}"`);
   }
 }
+
+/**
+ * Opens the monthly listen files (JSONL) of a ListenBrainz export archive in
+ * chronological order and yields their names and content streams.
+ *
+ * Files of months which are outside of the optional time range are skipped.
+ * Each stream has to be consumed before the next file is opened.
+ */
+export async function* readListenBrainzExportFiles(
+  path: string,
+  options: { after?: string; before?: string; timezone?: string } = {},
+): AsyncGenerator<{ name: string; stream: ReadableStream<string> }> {
+  const minTs = options.after
+    ? parseTimestamp(options.after, options.timezone)
+    : -Infinity;
+  const maxTs = options.before
+    ? parseTimestamp(options.before, options.timezone)
+    : Infinity;
+  const archive = await ZipReader.open(path);
+  try {
+    const months = archive.entries.flatMap((entry) => {
+      const match = entry.name.match(exportListensPattern);
+      if (!match) return [];
+      const year = Number(match[1]), month = Number(match[2]) - 1;
+      const start = Date.UTC(year, month, 1) / 1000;
+      const end = Date.UTC(year, month + 1, 1) / 1000;
+      return [{ entry, start, end }];
+    }).filter(({ start, end }) => end > minTs && start < maxTs)
+      .sort((a, b) => a.start - b.start);
+
+    for (const { entry } of months) {
+      const stream = await archive.openEntry(entry);
+      yield {
+        name: entry.name,
+        stream: stream.pipeThrough(new TextDecoderStream()),
+      };
+    }
+  } finally {
+    archive.close();
+  }
+}
+
+/** Identification of the application, as required by MusicBrainz. */
+export interface AppInfo {
+  name: string;
+  version: string;
+  contact: string;
+}
+
+/** Time range which is covered by a collection of listens. */
+export interface TimeRange {
+  /** Timestamp of the oldest listen. */
+  oldest: number;
+  /** Timestamp of the newest listen. */
+  newest: number;
+}
+
+/**
+ * Determines the time range of the listens in the given JSON or JSONL file.
+ * Only listens which pass the optional filter are considered.
+ *
+ * Returns `undefined` if the file does not exist or contains no listens.
+ */
+export async function readTimeRange(
+  path: string,
+  filter?: (listen: Listen) => boolean,
+): Promise<TimeRange | undefined> {
+  try {
+    return await getTimeRange(readListensFile(path), filter);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return;
+    throw error;
+  }
+}
+
+/**
+ * Determines the time range of the given listens.
+ * Only listens which pass the optional filter are considered.
+ *
+ * Returns `undefined` if there are no listens.
+ */
+export async function getTimeRange(
+  listens: AsyncIterable<Listen> | Iterable<Listen>,
+  filter?: (listen: Listen) => boolean,
+): Promise<TimeRange | undefined> {
+  let range: TimeRange | undefined;
+  for await (const listen of listens) {
+    if (filter && !filter(listen)) continue;
+    const { listened_at } = listen;
+    if (range) {
+      range.oldest = Math.min(range.oldest, listened_at);
+      range.newest = Math.max(range.newest, listened_at);
+    } else {
+      range = { oldest: listened_at, newest: listened_at };
+    }
+  }
+  return range;
+}
+
+/**
+ * Returns a key which identifies a listen by its timestamp and track metadata.
+ *
+ * Unlike the `recording_msid`, which is only available for inserted listens,
+ * this key can also be calculated for listens which have not been submitted.
+ */
+export function getListenKey(listen: Listen): string {
+  const { artist_name, track_name } = listen.track_metadata;
+  return [listen.listened_at, artist_name, track_name].join("\0");
+}
+
+/**
+ * Normalizes the given name for comparisons.
+ *
+ * Ignores differences in case, whitespace and diacritics.
+ */
+export function normalizeName(name: string): string {
+  return name.normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
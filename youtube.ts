@@ -0,0 +1,78 @@
+import type { Listen } from "@kellnerd/listenbrainz/listen";
+
+/** Options for the YouTube Music history parser. */
+export interface YouTubeParserOptions {
+  /** Callback which is called for each item which is skipped. */
+  onInvalidItem?: (item: unknown, index: number, reason: string) => void;
+}
+
+/** Entry of a Google Takeout `watch-history.json` file. */
+export interface WatchHistoryItem {
+  /** Name of the product, `YouTube Music` or `YouTube`. */
+  header: string;
+  /** Title of the video, prefixed with `Watched `. */
+  title: string;
+  /** URL of the video. */
+  titleUrl?: string;
+  /** Channel which has uploaded the video. */
+  subtitles?: Array<{ name: string; url?: string }>;
+  /** Date and time in ISO 8601 format. */
+  time: string;
+  products?: string[];
+  details?: Array<{ name: string }>;
+}
+
+/**
+ * Parses listens from the YouTube watch history of a Google Takeout.
+ *
+ * Only entries from YouTube Music are kept, regular videos, ads and removed
+ * videos are skipped. Auto-generated `Artist - Topic` channel names are
+ * converted into artist names, the video URL is stored as `origin_url`.
+ * The input can be JSON text or data which has already been parsed.
+ */
+export function* parseYouTubeMusicHistory(
+  input: unknown,
+  options: YouTubeParserOptions = {},
+): Generator<Listen> {
+  const items: WatchHistoryItem[] = typeof input === "string"
+    ? JSON.parse(input)
+    : input;
+
+  for (const [index, item] of items.entries()) {
+    const reason = validateItem(item);
+    if (reason) {
+      options.onInvalidItem?.(item, index, reason);
+      continue;
+    }
+
+    yield {
+      listened_at: Math.floor(Date.parse(item.time) / 1000),
+      track_metadata: {
+        artist_name: item.subtitles![0].name.replace(/ - Topic$/, ""),
+        track_name: item.title.replace(/^Watched /, ""),
+        additional_info: {
+          music_service: "music.youtube.com",
+          origin_url: item.titleUrl,
+        },
+      },
+    };
+  }
+}
+
+/** Checks whether the given JSON data looks like a YouTube watch history. */
+export function isYouTubeHistory(data: unknown): boolean {
+  if (!Array.isArray(data)) return false;
+  const [first] = data;
+  return typeof first?.header === "string" && typeof first.time === "string" &&
+    typeof first.title === "string";
+}
+
+function validateItem(item: WatchHistoryItem): string | undefined {
+  if (item.header !== "YouTube Music") return "Not a YouTube Music entry";
+  if (item.details?.some((detail) => detail.name === "From Google Ads")) {
+    return "Advertisement";
+  }
+  if (!item.titleUrl) return "Video has been removed";
+  if (!item.subtitles?.length) return "Missing channel name";
+  if (isNaN(Date.parse(item.time))) return "Invalid timestamp";
+}
@@ -0,0 +1,235 @@
+/** Entry of a ZIP archive. */
+export interface ZipEntry {
+  /** Path of the file inside the archive. */
+  name: string;
+  /** Compression method, `0` (stored) and `8` (deflate) are supported. */
+  compressionMethod: number;
+  /** Size of the compressed data in bytes. */
+  compressedSize: number;
+  /** Size of the uncompressed data in bytes. */
+  uncompressedSize: number;
+  /** Offset of the local file header in bytes. */
+  localHeaderOffset: number;
+}
+
+const localFileHeaderSignature = 0x04034b50;
+const centralFileHeaderSignature = 0x02014b50;
+const endOfCentralDirectorySignature = 0x06054b50;
+const zip64EndOfCentralDirectorySignature = 0x06064b50;
+const zip64LocatorSignature = 0x07064b50;
+
+/** Checks whether the file at the given path is a ZIP archive. */
+export async function isZipArchive(path: string): Promise<boolean> {
+  const file = await Deno.open(path);
+  try {
+    const bytes = await readAt(file, 0, 4);
+    return bytes.length === 4 &&
+      getUint32(bytes, 0) === localFileHeaderSignature;
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * Reads entries of a ZIP archive without extracting it.
+ *
+ * Only the central directory is read initially, the data of each entry is
+ * streamed (and decompressed) on demand.
+ */
+export class ZipReader {
+  #file: Deno.FsFile;
+  /** Entries of the archive, in the order of the central directory. */
+  readonly entries: ZipEntry[];
+
+  private constructor(file: Deno.FsFile, entries: ZipEntry[]) {
+    this.#file = file;
+    this.entries = entries;
+  }
+
+  /** Opens the ZIP archive at the given path and reads its entries. */
+  static async open(path: string): Promise<ZipReader> {
+    const file = await Deno.open(path);
+    try {
+      return new ZipReader(file, await readCentralDirectory(file));
+    } catch (error) {
+      file.close();
+      throw error;
+    }
+  }
+
+  /** Returns a stream of the decompressed data of the given entry. */
+  async openEntry(entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+    const header = await readAt(this.#file, entry.localHeaderOffset, 30);
+    if (getUint32(header, 0) !== localFileHeaderSignature) {
+      throw new Error(`Invalid local file header of "${entry.name}"`);
+    }
+    const dataOffset = entry.localHeaderOffset + 30 + getUint16(header, 26) +
+      getUint16(header, 28);
+
+    let position = dataOffset;
+    const end = dataOffset + entry.compressedSize;
+    const file = this.#file;
+    const data = new ReadableStream({
+      async pull(controller) {
+        if (position >= end) {
+          controller.close();
+          return;
+        }
+        const chunk = await readAt(
+          file,
+          position,
+          Math.min(end - position, 65536),
+        );
+        if (!chunk.length) {
+          controller.error(new Error(`Unexpected end of "${entry.name}"`));
+          return;
+        }
+        position += chunk.length;
+        controller.enqueue(chunk);
+      },
+    });
+
+    switch (entry.compressionMethod) {
+      case 0:
+        return data;
+      case 8:
+        return data.pipeThrough(new DecompressionStream("deflate-raw"));
+      default:
+        throw new Error(
+          `Unsupported compression method ${entry.compressionMethod} of "${entry.name}"`,
+        );
+    }
+  }
+
+  /** Closes the archive file. */
+  close() {
+    this.#file.close();
+  }
+}
+
+/** Reads the entries from the central directory of a ZIP archive. */
+async function readCentralDirectory(file: Deno.FsFile): Promise<ZipEntry[]> {
+  // The end of central directory record is followed by a comment of up to
+  // 65535 bytes, so it has to be searched backwards from the end of the file.
+  const fileSize = (await file.stat()).size;
+  const tailSize = Math.min(fileSize, 22 + 65535);
+  const tail = await readAt(file, fileSize - tailSize, tailSize);
+  let eocd = -1;
+  for (let index = tail.length - 22; index >= 0; index--) {
+    if (getUint32(tail, index) === endOfCentralDirectorySignature) {
+      eocd = index;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Invalid ZIP archive, end of central directory not found");
+  }
+
+  let entryCount = getUint16(tail, eocd + 10);
+  let directorySize = getUint32(tail, eocd + 12);
+  let directoryOffset = getUint32(tail, eocd + 16);
+  if (
+    (entryCount === 0xffff || directorySize === 0xffffffff ||
+      directoryOffset === 0xffffffff) &&
+    eocd >= 20 &&
+    getUint32(tail, eocd - 20) === zip64LocatorSignature
+  ) {
+    const recordOffset = getUint64(tail, eocd - 20 + 8);
+    const record = await readAt(file, recordOffset, 56);
+    if (getUint32(record, 0) !== zip64EndOfCentralDirectorySignature) {
+      throw new Error("Invalid ZIP64 end of central directory record");
+    }
+    entryCount = getUint64(record, 32);
+    directorySize = getUint64(record, 40);
+    directoryOffset = getUint64(record, 48);
+  }
+
+  const directory = await readAt(file, directoryOffset, directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let index = 0; index < entryCount; index++) {
+    if (getUint32(directory, offset) !== centralFileHeaderSignature) {
+      throw new Error("Invalid ZIP archive, corrupt central directory");
+    }
+    const nameLength = getUint16(directory, offset + 28);
+    const extraLength = getUint16(directory, offset + 30);
+    const commentLength = getUint16(directory, offset + 32);
+    const nameStart = offset + 46;
+    const entry: ZipEntry = {
+      name: decoder.decode(
+        directory.subarray(nameStart, nameStart + nameLength),
+      ),
+      compressionMethod: getUint16(directory, offset + 10),
+      compressedSize: getUint32(directory, offset + 20),
+      uncompressedSize: getUint32(directory, offset + 24),
+      localHeaderOffset: getUint32(directory, offset + 42),
+    };
+    readZip64Extra(
+      entry,
+      directory.subarray(
+        nameStart + nameLength,
+        nameStart + nameLength + extraLength,
+      ),
+    );
+    entries.push(entry);
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/** Replaces sizes and offsets which are too large for 32 bits. */
+function readZip64Extra(entry: ZipEntry, extra: Uint8Array) {
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const id = getUint16(extra, offset);
+    const size = getUint16(extra, offset + 2);
+    if (id === 0x0001) {
+      let position = offset + 4;
+      for (
+        const key of [
+          "uncompressedSize",
+          "compressedSize",
+          "localHeaderOffset",
+        ] as const
+      ) {
+        if (entry[key] === 0xffffffff) {
+          entry[key] = getUint64(extra, position);
+          position += 8;
+        }
+      }
+      return;
+    }
+    offset += 4 + size;
+  }
+}
+
+/** Reads up to the given number of bytes, starting at the given offset. */
+async function readAt(
+  file: Deno.FsFile,
+  offset: number,
+  length: number,
+): Promise<Uint8Array> {
+  await file.seek(offset, Deno.SeekMode.Start);
+  const buffer = new Uint8Array(length);
+  let bytesRead = 0;
+  while (bytesRead < length) {
+    const count = await file.read(buffer.subarray(bytesRead));
+    if (count === null) break;
+    bytesRead += count;
+  }
+  return buffer.subarray(0, bytesRead);
+}
+
+function getUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function getUint32(bytes: Uint8Array, offset: number): number {
+  return (getUint16(bytes, offset) | (getUint16(bytes, offset + 2) << 16)) >>>
+    0;
+}
+
+function getUint64(bytes: Uint8Array, offset: number): number {
+  return getUint32(bytes, offset) + getUint32(bytes, offset + 4) * 2 ** 32;
+}